@@ -3,26 +3,172 @@ import { createRequire } from "module";
 import * as path from "path";
 
 import type typescript from "typescript";
+import { getAddress, isAddress } from "viem";
+
+import { rewriteRelativeImports } from "./imports.js";
+import type { ModuleHost } from "./module-host.js";
+import type { SolcInputOptions } from "./solc.js";
 
 type TS = typeof typescript;
 
+export interface SolTagInfo {
+  contractName: string;
+  /** Per-template compiler settings from `sol("Name", { ... })` */
+  settings?: SolcInputOptions;
+  /** Set when the second argument isn't a statically-resolvable object literal */
+  unresolvedSettings?: typescript.Expression;
+}
+
+/** Module specifier `sol` and `solFile` are imported from */
+const SOLTAG_MODULE = "soltag";
+
 /**
- * Check if a tag expression is a sol("Name") call expression.
- * Returns the contract name, or false if the tag is not a sol tag.
+ * Local names `sol` and `solFile` are bound to in a module, from its imports
+ * of `"soltag"`: named imports (aliased or not) and namespace imports.
  */
-export function isSolTag(ts: TS, tag: typescript.Node): { contractName: string } | false {
+interface SoltagBindings {
+  sol: Set<string>;
+  solFile: Set<string>;
+  namespaces: Set<string>;
+}
+
+const bindingsCache = new WeakMap<typescript.SourceFile, SoltagBindings>();
+
+function soltagBindings(ts: TS, sourceFile: typescript.SourceFile): SoltagBindings {
+  let bindings = bindingsCache.get(sourceFile);
+  if (bindings) return bindings;
+
+  bindings = { sol: new Set(), solFile: new Set(), namespaces: new Set() };
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+    const { moduleSpecifier, importClause } = statement;
+    if (!ts.isStringLiteral(moduleSpecifier) || moduleSpecifier.text !== SOLTAG_MODULE) continue;
+
+    const { namedBindings } = importClause;
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      bindings.namespaces.add(namedBindings.name.text);
+    } else if (namedBindings) {
+      for (const element of namedBindings.elements) {
+        const imported = (element.propertyName ?? element.name).text;
+        if (imported === "sol" || imported === "solFile") bindings[imported].add(element.name.text);
+      }
+    }
+  }
+  bindingsCache.set(sourceFile, bindings);
+  return bindings;
+}
+
+/**
+ * Whether `callee` refers to soltag's `name` export in `sourceFile`: an
+ * identifier imported from `"soltag"` (possibly renamed), or a member of a
+ * namespace import (`st.sol`). A local function that happens to be called
+ * `sol` doesn't count.
+ */
+function isSoltagExport(
+  ts: TS,
+  callee: typescript.Expression,
+  name: "sol" | "solFile",
+  sourceFile: typescript.SourceFile,
+): boolean {
+  const bindings = soltagBindings(ts, sourceFile);
+  if (ts.isIdentifier(callee)) return bindings[name].has(callee.text);
+  return (
+    ts.isPropertyAccessExpression(callee) &&
+    ts.isIdentifier(callee.expression) &&
+    bindings.namespaces.has(callee.expression.text) &&
+    callee.name.text === name
+  );
+}
+
+/**
+ * Check if a tag expression is a sol("Name") or sol("Name", { ...settings })
+ * call expression, with `sol` imported from `"soltag"` (see
+ * {@link isSoltagExport}). Returns the contract name (and settings, if given),
+ * or false if the tag is not a sol tag. Pass `sourceFile` for trees parsed
+ * without parent pointers.
+ */
+export function isSolTag(
+  ts: TS,
+  tag: typescript.Node,
+  sourceFile: typescript.SourceFile = tag.getSourceFile(),
+): SolTagInfo | false {
   if (
     ts.isCallExpression(tag) &&
-    ts.isIdentifier(tag.expression) &&
-    tag.expression.text === "sol" &&
-    tag.arguments.length === 1 &&
+    isSoltagExport(ts, tag.expression, "sol", sourceFile) &&
+    (tag.arguments.length === 1 || tag.arguments.length === 2) &&
     ts.isStringLiteral(tag.arguments[0])
   ) {
-    return { contractName: tag.arguments[0].text };
+    const contractName = tag.arguments[0].text;
+    if (tag.arguments.length === 1) return { contractName };
+
+    const settingsNode = tag.arguments[1];
+    const settings = resolveStaticValue(ts, settingsNode, sourceFile);
+    if (settings === undefined || typeof settings !== "object" || Array.isArray(settings)) {
+      return { contractName, unresolvedSettings: settingsNode };
+    }
+    return { contractName, settings: settings as SolcInputOptions };
   }
   return false;
 }
 
+type StaticValue = string | number | boolean | null | StaticValue[] | { [key: string]: StaticValue };
+
+/**
+ * Resolve a JSON-like expression (literals, object / array literals, `as const`,
+ * and identifiers bound to top-level `const`s) to its value at build time.
+ * Returns undefined if any part of it is dynamic.
+ */
+export function resolveStaticValue(
+  ts: TS,
+  node: typescript.Expression,
+  sourceFile: typescript.SourceFile,
+): StaticValue | undefined {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return resolveStaticValue(ts, node.expression, sourceFile);
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(node.operand)
+  ) {
+    return -Number(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+  if (ts.isArrayLiteralExpression(node)) {
+    const items: StaticValue[] = [];
+    for (const element of node.elements) {
+      const value = resolveStaticValue(ts, element, sourceFile);
+      if (value === undefined) return undefined;
+      items.push(value);
+    }
+    return items;
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    const out: { [key: string]: StaticValue } = {};
+    for (const prop of node.properties) {
+      if (!ts.isPropertyAssignment(prop)) return undefined;
+      if (!ts.isIdentifier(prop.name) && !ts.isStringLiteral(prop.name)) return undefined;
+      const value = resolveStaticValue(ts, prop.initializer, sourceFile);
+      if (value === undefined) return undefined;
+      out[prop.name.text] = value;
+    }
+    return out;
+  }
+
+  if (ts.isIdentifier(node)) {
+    const initializer = findConstInitializer(ts, node.text, sourceFile);
+    return initializer ? resolveStaticValue(ts, initializer, sourceFile) : undefined;
+  }
+
+  return undefined;
+}
+
 /**
  * Thrown when a `solFile(...)` interpolation can't read or resolve the
  * requested file. Carries the call-site node so editor diagnostics can paint
@@ -68,6 +214,84 @@ export function stripSolidityHeader(src: string): string {
   return lines.slice(i).join("\n");
 }
 
+/**
+ * Options for resolving template interpolations.
+ */
+export interface ResolveOptions {
+  /**
+   * Receives the absolute path of every file read while resolving (`solFile`
+   * targets and the modules imported constants are declared in)
+   */
+  dependencies?: Set<string>;
+  /** Follows imports of other modules; without it only the file's own constants resolve */
+  modules?: ModuleHost;
+  /**
+   * Told why resolution stopped, at the expression that stopped it. The first
+   * call names the innermost cause; it may be in another module.
+   */
+  onUnresolved?: (failure: UnresolvedExpression) => void;
+  /**
+   * Make {@link extractTemplateSource} throw {@link UnresolvedInterpolationError}
+   * instead of returning undefined
+   */
+  strict?: boolean;
+}
+
+export interface UnresolvedExpression {
+  node: typescript.Node;
+  sourceFile: typescript.SourceFile;
+  reason: string;
+}
+
+/**
+ * Thrown by {@link extractTemplateSource} in strict mode when an
+ * interpolation can't be resolved at build time. `node` is the `${...}`
+ * expression in the template; `reason` explains the innermost cause.
+ */
+export class UnresolvedInterpolationError extends Error {
+  readonly node: typescript.Expression;
+  readonly reason: string;
+
+  constructor(args: { node: typescript.Expression; text: string; reason: string }) {
+    super(`cannot resolve \`\${${args.text}}\` at build time: ${args.reason}`);
+    this.name = "UnresolvedInterpolationError";
+    this.node = args.node;
+    this.reason = args.reason;
+  }
+}
+
+function report(
+  options: ResolveOptions,
+  node: typescript.Node,
+  sourceFile: typescript.SourceFile,
+  reason: string,
+): undefined {
+  options.onUnresolved?.({ node, sourceFile, reason });
+  return undefined;
+}
+
+/** Source text of a node, for messages */
+function textOf(node: typescript.Node, sourceFile: typescript.SourceFile): string {
+  return node.getText(sourceFile);
+}
+
+/**
+ * A build-time value an interpolation can resolve to. Strings are spliced in
+ * verbatim; the rest render as Solidity literals (see {@link resolveInterpolation}).
+ */
+type ConstValue = string | number | bigint | boolean | readonly ConstValue[] | { readonly [key: string]: ConstValue };
+
+/**
+ * What a name refers to: a `const` (with its declared type, to recognize
+ * viem's `Address`), an enum, or a namespace import. Carries the file it's
+ * declared in: its own identifiers and `solFile` paths resolve from there,
+ * not from the template's file.
+ */
+type Binding =
+  | { kind: "const"; initializer: typescript.Expression; type?: typescript.TypeNode; sourceFile: typescript.SourceFile }
+  | { kind: "enum"; declaration: typescript.EnumDeclaration; sourceFile: typescript.SourceFile }
+  | { kind: "namespace"; specifier: string; sourceFile: typescript.SourceFile };
+
 /**
  * Try to resolve a TS expression to a string constant at build time.
  * Returns the resolved string, or undefined if the expression can't be statically resolved.
@@ -79,58 +303,370 @@ export function resolveStringExpression(
   ts: TS,
   node: typescript.Expression,
   sourceFile: typescript.SourceFile,
+  options: ResolveOptions = {},
 ): string | undefined {
-  if (ts.isStringLiteral(node)) return node.text;
+  const value = resolveConstValue(ts, node, sourceFile, options);
+  return typeof value === "string" ? value : undefined;
+}
 
-  if (ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+/**
+ * Resolve a template interpolation to the Solidity text it splices in.
+ * Strings (fragments, `solFile` contents) go in verbatim; numbers, bigints,
+ * booleans, enum members and `as const` object members render as Solidity
+ * literals, and constants typed as viem's `Address` as checksummed address
+ * literals. Returns undefined if the value can't be statically resolved, or
+ * has no literal form (objects, `NaN`, numbers printed with an exponent).
+ *
+ * Throws {@link SolFileError} like {@link resolveStringExpression}.
+ */
+export function resolveInterpolation(
+  ts: TS,
+  node: typescript.Expression,
+  sourceFile: typescript.SourceFile,
+  options: ResolveOptions = {},
+): string | undefined {
+  const value = resolveConstValue(ts, node, sourceFile, options);
+  return value === undefined ? undefined : renderInterpolation(value, node, sourceFile, options);
+}
+
+function renderInterpolation(
+  value: ConstValue,
+  node: typescript.Node,
+  sourceFile: typescript.SourceFile,
+  options: ResolveOptions,
+): string | undefined {
+  const rendered = renderSolidityValue(value);
+  if (rendered !== undefined) return rendered;
+  const what = typeof value === "object" ? (Array.isArray(value) ? "an array" : "an object") : String(value);
+  return report(
+    options,
+    node,
+    sourceFile,
+    `\`${textOf(node, sourceFile)}\` is ${what}, which has no Solidity literal form`,
+  );
+}
+
+/**
+ * A value's text in Solidity source: strings verbatim, numbers (unless
+ * they'd print in exponent form), bigints and booleans as literals. Undefined
+ * for everything else. Shared with `soltag/runtime`, which renders the values
+ * of interpolations as they are at runtime.
+ */
+export function renderSolidityValue(value: ConstValue): string | undefined {
+  switch (typeof value) {
+    case "string":
+      return value;
+    case "bigint":
+    case "boolean":
+      return String(value);
+    case "number": {
+      const text = String(value);
+      // `1e+21`, `NaN` and `Infinity` aren't Solidity literals
+      return /^-?\d+(\.\d+)?$/.test(text) ? text : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function resolveConstValue(
+  ts: TS,
+  node: typescript.Expression,
+  sourceFile: typescript.SourceFile,
+  options: ResolveOptions,
+): ConstValue | undefined {
+  if (ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node)) {
+    return resolveConstValue(ts, node.expression, sourceFile, options);
+  }
+  if (ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    const value = resolveConstValue(ts, node.expression, sourceFile, options);
+    return isAddressType(ts, node.type) ? toAddress(value, node, sourceFile, options) : value;
+  }
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
 
   if (ts.isTemplateExpression(node)) {
     let result = node.head.text;
     for (const span of node.templateSpans) {
-      const resolved = resolveStringExpression(ts, span.expression, sourceFile);
+      const resolved = resolveInterpolation(ts, span.expression, sourceFile, options);
       if (resolved === undefined) return undefined;
       result += resolved + span.literal.text;
     }
     return result;
   }
 
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  // The scanner normalizes bigint literals to decimal, e.g. `0xffn` → `255n`
+  if (ts.isBigIntLiteral(node)) return BigInt(node.text.slice(0, -1));
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken) {
+    const operand = resolveConstValue(ts, node.operand, sourceFile, options);
+    if (typeof operand === "number" || typeof operand === "bigint") return -operand;
+    return operand === undefined
+      ? undefined
+      : report(options, node, sourceFile, "only numbers and bigints can be negated");
+  }
+
+  if (ts.isArrayLiteralExpression(node)) {
+    const items: ConstValue[] = [];
+    for (const element of node.elements) {
+      const value = resolveConstValue(ts, element, sourceFile, options);
+      if (value === undefined) return undefined;
+      items.push(value);
+    }
+    return items;
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    const out: { [key: string]: ConstValue } = {};
+    for (const prop of node.properties) {
+      if (
+        !ts.isPropertyAssignment(prop) ||
+        (!ts.isIdentifier(prop.name) && !ts.isStringLiteral(prop.name) && !ts.isNumericLiteral(prop.name))
+      ) {
+        return report(options, prop, sourceFile, "object literals may only contain `key: value` properties");
+      }
+      const value = resolveConstValue(ts, prop.initializer, sourceFile, options);
+      if (value === undefined) return undefined;
+      out[prop.name.text] = value;
+    }
+    return out;
+  }
+
   if (ts.isIdentifier(node)) {
-    return resolveIdentifierToString(ts, node, sourceFile);
+    const binding = findBinding(ts, node.text, sourceFile, options, new Set());
+    if (binding?.kind === "const") return resolveConstBinding(ts, binding, options);
+    if (binding)
+      return report(
+        options,
+        node,
+        sourceFile,
+        `\`${node.text}\` is ${binding.kind === "enum" ? "an enum" : "a namespace"}, not a value`,
+      );
+    return report(options, node, sourceFile, explainMissingBinding(ts, node.text, sourceFile, options));
+  }
+
+  if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+    return resolveMember(ts, node, sourceFile, options);
   }
 
-  // String concatenation with +
+  // String concatenation with +, or addition of two numbers / bigints
   if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
-    const left = resolveStringExpression(ts, node.left, sourceFile);
-    const right = resolveStringExpression(ts, node.right, sourceFile);
-    if (left !== undefined && right !== undefined) return left + right;
-    return undefined;
+    const left = resolveConstValue(ts, node.left, sourceFile, options);
+    const right = resolveConstValue(ts, node.right, sourceFile, options);
+    if (left === undefined || right === undefined) return undefined;
+    if (typeof left === "string" || typeof right === "string") {
+      const l = renderInterpolation(left, node.left, sourceFile, options);
+      const r = l === undefined ? undefined : renderInterpolation(right, node.right, sourceFile, options);
+      return r === undefined ? undefined : l! + r;
+    }
+    if (typeof left === "number" && typeof right === "number") return left + right;
+    if (typeof left === "bigint" && typeof right === "bigint") return left + right;
+    return report(options, node, sourceFile, "`+` only concatenates strings or adds two numbers or two bigints");
   }
 
   // solFile(path, opts?) — read the file at build time, splice contents
-  if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === "solFile") {
-    return resolveSolFileCall(ts, node, sourceFile);
+  if (ts.isCallExpression(node) && isSoltagExport(ts, node.expression, "solFile", sourceFile)) {
+    return resolveSolFileCall(ts, node, sourceFile, options);
   }
 
-  return undefined;
+  if (ts.isCallExpression(node)) {
+    return report(
+      options,
+      node,
+      sourceFile,
+      `\`${textOf(node.expression, sourceFile)}(...)\` is a function call, evaluated at runtime`,
+    );
+  }
+  return report(
+    options,
+    node,
+    sourceFile,
+    `\`${textOf(node, sourceFile)}\` isn't a literal, constant, enum member, or string concatenation`,
+  );
 }
 
 /**
- * Find a const declaration for an identifier and resolve its string value.
+ * Whether a type annotation names viem's `Address` (`Address`, `viem.Address`).
  */
-function resolveIdentifierToString(
-  ts: TS,
-  identifier: typescript.Identifier,
+function isAddressType(ts: TS, type: typescript.TypeNode): boolean {
+  if (!ts.isTypeReferenceNode(type)) return false;
+  const name = ts.isIdentifier(type.typeName) ? type.typeName : type.typeName.right;
+  return name.text === "Address";
+}
+
+/**
+ * Solidity only accepts checksummed address literals.
+ */
+function toAddress(
+  value: ConstValue | undefined,
+  node: typescript.Node,
   sourceFile: typescript.SourceFile,
+  options: ResolveOptions,
 ): string | undefined {
-  const name = identifier.text;
+  if (value === undefined) return undefined;
+  if (typeof value === "string" && isAddress(value, { strict: false })) return getAddress(value);
+  return report(options, node, sourceFile, `${JSON.stringify(value)} is typed \`Address\` but isn't a valid address`);
+}
 
+function resolveConstBinding(
+  ts: TS,
+  binding: Extract<Binding, { kind: "const" }>,
+  options: ResolveOptions,
+): ConstValue | undefined {
+  const value = resolveConstValue(ts, binding.initializer, binding.sourceFile, options);
+  return binding.type && isAddressType(ts, binding.type)
+    ? toAddress(value, binding.initializer, binding.sourceFile, options)
+    : value;
+}
+
+/**
+ * Resolve `owner.member` / `owner["member"]`: a member of an enum, an export
+ * of a namespace import, or a property / element of a constant object or array.
+ */
+function resolveMember(
+  ts: TS,
+  node: typescript.PropertyAccessExpression | typescript.ElementAccessExpression,
+  sourceFile: typescript.SourceFile,
+  options: ResolveOptions,
+): ConstValue | undefined {
+  const key = ts.isPropertyAccessExpression(node)
+    ? node.name.text
+    : resolveConstValue(ts, node.argumentExpression, sourceFile, options);
+  if (key === undefined) return undefined;
+  if (typeof key !== "string" && typeof key !== "number") {
+    return report(options, node, sourceFile, "only string and number keys can be looked up");
+  }
+
+  const owner = resolveBinding(ts, node.expression, sourceFile, options);
+  const ownerText = textOf(node.expression, sourceFile);
+  if (owner?.kind === "enum") {
+    const value = resolveEnumMember(ts, owner, String(key), options);
+    return value ?? report(options, node, sourceFile, `enum \`${ownerText}\` has no resolvable member \`${key}\``);
+  }
+  if (owner?.kind === "namespace") {
+    const binding = findExport(ts, owner.specifier, String(key), owner.sourceFile, options, new Set());
+    if (binding?.kind === "const") return resolveConstBinding(ts, binding, options);
+    return report(options, node, sourceFile, `"${owner.specifier}" has no \`const\` export \`${key}\``);
+  }
+
+  const object = resolveConstValue(ts, node.expression, sourceFile, options);
+  if (object === undefined) return undefined;
+  if (typeof object !== "object" || !Object.hasOwn(object, key)) {
+    return report(options, node, sourceFile, `\`${ownerText}\` has no property \`${key}\``);
+  }
+  return (object as Record<string | number, ConstValue>)[key];
+}
+
+/**
+ * The binding an identifier or namespace member (`Fragments.Role`) names.
+ */
+function resolveBinding(
+  ts: TS,
+  node: typescript.Expression,
+  sourceFile: typescript.SourceFile,
+  options: ResolveOptions,
+): Binding | undefined {
+  if (ts.isIdentifier(node)) return findBinding(ts, node.text, sourceFile, options, new Set());
+  if (ts.isPropertyAccessExpression(node)) {
+    const owner = resolveBinding(ts, node.expression, sourceFile, options);
+    if (owner?.kind === "namespace") {
+      return findExport(ts, owner.specifier, node.name.text, owner.sourceFile, options, new Set());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Value of an enum member: its initializer, or one more than the previous
+ * member's numeric value (starting at 0).
+ */
+function resolveEnumMember(
+  ts: TS,
+  binding: Extract<Binding, { kind: "enum" }>,
+  name: string,
+  options: ResolveOptions,
+): ConstValue | undefined {
+  let next: number | undefined = 0;
+  for (const member of binding.declaration.members) {
+    const value: ConstValue | undefined = member.initializer
+      ? resolveConstValue(ts, member.initializer, binding.sourceFile, options)
+      : next;
+    if ((ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) && member.name.text === name) return value;
+    next = typeof value === "number" ? value + 1 : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Find the initializer of the top-level `const` declaration named `name`.
+ */
+function findConstInitializer(
+  ts: TS,
+  name: string,
+  sourceFile: typescript.SourceFile,
+): typescript.Expression | undefined {
   for (const statement of sourceFile.statements) {
     if (!ts.isVariableStatement(statement)) continue;
     if (!(statement.declarationList.flags & ts.NodeFlags.Const)) continue;
 
     for (const decl of statement.declarationList.declarations) {
       if (ts.isIdentifier(decl.name) && decl.name.text === name && decl.initializer) {
-        return resolveStringExpression(ts, decl.initializer, sourceFile);
+        return decl.initializer;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find what a name refers to in `sourceFile`: a top-level `const` or enum,
+ * or (with `options.modules`) a named, default or namespace import.
+ *
+ * `seen` holds the `file#export` pairs already visited, so circular imports
+ * and re-exports end instead of recursing forever.
+ */
+function findBinding(
+  ts: TS,
+  name: string,
+  sourceFile: typescript.SourceFile,
+  options: ResolveOptions,
+  seen: Set<string>,
+): Binding | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement) && statement.declarationList.flags & ts.NodeFlags.Const) {
+      for (const decl of statement.declarationList.declarations) {
+        if (ts.isIdentifier(decl.name) && decl.name.text === name && decl.initializer) {
+          return { kind: "const", initializer: decl.initializer, type: decl.type, sourceFile };
+        }
+      }
+    }
+    if (ts.isEnumDeclaration(statement) && statement.name.text === name) {
+      return { kind: "enum", declaration: statement, sourceFile };
+    }
+  }
+  if (!options.modules) return undefined;
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const clause = statement.importClause;
+    if (!clause || clause.isTypeOnly) continue;
+    const specifier = statement.moduleSpecifier.text;
+
+    if (clause.name?.text === name) {
+      return findExport(ts, specifier, "default", sourceFile, options, seen);
+    }
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings) && bindings.name.text === name) {
+      return { kind: "namespace", specifier, sourceFile };
+    }
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        if (element.name.text !== name || element.isTypeOnly) continue;
+        return findExport(ts, specifier, (element.propertyName ?? element.name).text, sourceFile, options, seen);
       }
     }
   }
@@ -138,6 +674,134 @@ function resolveIdentifierToString(
   return undefined;
 }
 
+/**
+ * Why {@link findBinding} found nothing usable for `name`.
+ */
+function explainMissingBinding(
+  ts: TS,
+  name: string,
+  sourceFile: typescript.SourceFile,
+  options: ResolveOptions,
+): string {
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      const declared = statement.declarationList.declarations.find(
+        (decl) => ts.isIdentifier(decl.name) && decl.name.text === name,
+      );
+      if (!declared) continue;
+      if (!declared.initializer) return `\`${name}\` has no initializer`;
+      const keyword = statement.declarationList.flags & ts.NodeFlags.Let ? "let" : "var";
+      return `\`${name}\` is declared with \`${keyword}\`; only \`const\` bindings resolve at build time`;
+    }
+
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      const bindings = clause?.namedBindings;
+      const imported =
+        clause?.name?.text === name ||
+        (bindings && ts.isNamespaceImport(bindings) && bindings.name.text === name) ||
+        (bindings && ts.isNamedImports(bindings) && bindings.elements.some((element) => element.name.text === name));
+      if (!imported) continue;
+
+      const specifier = statement.moduleSpecifier.text;
+      if (!options.modules) return `\`${name}\` is imported from "${specifier}", and imports aren't followed here`;
+      const fileName = options.modules.resolveModule(specifier, sourceFile.fileName);
+      if (!fileName) return `cannot find module "${specifier}"`;
+      return `\`${name}\` isn't bound to a \`const\` or enum in "${specifier}"`;
+    }
+  }
+  return `\`${name}\` isn't a top-level \`const\` in this module`;
+}
+
+function hasExportModifier(ts: TS, statement: typescript.Statement): boolean {
+  return (
+    ts.canHaveModifiers(statement) &&
+    (ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) ?? false)
+  );
+}
+
+/**
+ * Find what export `exportName` of the module `specifier` (imported from
+ * `importer`) refers to. Follows `export const`, `export enum`,
+ * `export default`, `export { a as b }` (of local or imported bindings), and
+ * re-exports (`export { a } from`, `export * from`, `export * as ns from`).
+ * The module's file is added to `options.dependencies`.
+ */
+function findExport(
+  ts: TS,
+  specifier: string,
+  exportName: string,
+  importer: typescript.SourceFile,
+  options: ResolveOptions,
+  seen: Set<string>,
+): Binding | undefined {
+  const modules = options.modules!;
+  const fileName = modules.resolveModule(specifier, importer.fileName);
+  if (!fileName || seen.has(`${fileName}#${exportName}`)) return undefined;
+  seen.add(`${fileName}#${exportName}`);
+
+  const sourceFile = modules.getSourceFile(fileName);
+  if (!sourceFile) return undefined;
+  options.dependencies?.add(fileName);
+
+  const starSpecifiers: string[] = [];
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isVariableStatement(statement) &&
+      statement.declarationList.flags & ts.NodeFlags.Const &&
+      hasExportModifier(ts, statement)
+    ) {
+      for (const decl of statement.declarationList.declarations) {
+        if (ts.isIdentifier(decl.name) && decl.name.text === exportName && decl.initializer) {
+          return { kind: "const", initializer: decl.initializer, type: decl.type, sourceFile };
+        }
+      }
+    }
+    if (ts.isEnumDeclaration(statement) && statement.name.text === exportName && hasExportModifier(ts, statement)) {
+      return { kind: "enum", declaration: statement, sourceFile };
+    }
+
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals && exportName === "default") {
+      const { expression } = statement;
+      return ts.isIdentifier(expression)
+        ? findBinding(ts, expression.text, sourceFile, options, seen)
+        : { kind: "const", initializer: expression, sourceFile };
+    }
+
+    if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+      const from =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : undefined;
+      const clause = statement.exportClause;
+      if (!clause) {
+        if (from) starSpecifiers.push(from);
+        continue;
+      }
+      if (ts.isNamespaceExport(clause)) {
+        if (from && clause.name.text === exportName) return { kind: "namespace", specifier: from, sourceFile };
+        continue;
+      }
+
+      for (const element of clause.elements) {
+        if (element.name.text !== exportName || element.isTypeOnly) continue;
+        const local = (element.propertyName ?? element.name).text;
+        return from
+          ? findExport(ts, from, local, sourceFile, options, seen)
+          : findBinding(ts, local, sourceFile, options, seen);
+      }
+    }
+  }
+
+  // `export *` never re-exports a default
+  if (exportName === "default") return undefined;
+  for (const from of starSpecifiers) {
+    const binding = findExport(ts, from, exportName, sourceFile, options, seen);
+    if (binding) return binding;
+  }
+  return undefined;
+}
+
 /**
  * Resolve `solFile(path, opts?)`: read the file and splice the (optionally
  * header-stripped) contents. Returns undefined if any argument can't be
@@ -151,8 +815,13 @@ function resolveIdentifierToString(
  *   package's `exports` map. The target package needs to expose its `.sol`
  *   files via an `exports` entry like `"./solidity/*.sol": "./solidity/*.sol"`.
  *
+ * Relative `import` paths inside the file are rewritten to resolve from the
+ * .ts file's directory, since the spliced contents compile as part of the
+ * template.
+ *
  * No caching: file reads are cheap, and re-reading on every resolution lets
- * the editor pick up `.sol` edits on its next poll without restarting.
+ * the editor pick up `.sol` edits on its next poll without restarting. The
+ * resolved path is added to `options.dependencies` so bundlers can watch it.
  *
  * Throws {@link SolFileError} on resolution or file-read failure.
  */
@@ -160,30 +829,36 @@ function resolveSolFileCall(
   ts: TS,
   node: typescript.CallExpression,
   sourceFile: typescript.SourceFile,
+  options: ResolveOptions,
 ): string | undefined {
-  if (node.arguments.length < 1 || node.arguments.length > 2) return undefined;
+  if (node.arguments.length < 1 || node.arguments.length > 2) {
+    return report(options, node, sourceFile, "solFile takes a path and an optional options object");
+  }
 
-  const specifier = resolveStringExpression(ts, node.arguments[0], sourceFile);
+  const specifier = resolveStringExpression(ts, node.arguments[0], sourceFile, options);
   if (specifier === undefined) return undefined;
 
   let rawOpt = false;
   if (node.arguments.length === 2) {
     const opts = node.arguments[1];
-    if (!ts.isObjectLiteralExpression(opts)) return undefined;
+    const invalid = () =>
+      report(options, opts, sourceFile, "solFile options must be an object literal like `{ raw: true }`");
+    if (!ts.isObjectLiteralExpression(opts)) return invalid();
     for (const prop of opts.properties) {
-      if (!ts.isPropertyAssignment(prop) || !ts.isIdentifier(prop.name)) return undefined;
+      if (!ts.isPropertyAssignment(prop) || !ts.isIdentifier(prop.name)) return invalid();
       const key = prop.name.text;
       if (key === "raw") {
         if (prop.initializer.kind === ts.SyntaxKind.TrueKeyword) rawOpt = true;
         else if (prop.initializer.kind === ts.SyntaxKind.FalseKeyword) rawOpt = false;
-        else return undefined;
+        else return invalid();
       } else {
-        return undefined;
+        return invalid();
       }
     }
   }
 
   const absPath = resolveSolFileSpecifier(specifier, sourceFile.fileName, node);
+  options.dependencies?.add(absPath);
 
   let contents: string;
   try {
@@ -197,6 +872,7 @@ function resolveSolFileCall(
     });
   }
 
+  contents = rewriteRelativeImports(contents, path.dirname(absPath), path.dirname(sourceFile.fileName));
   return rawOpt ? contents : stripSolidityHeader(contents);
 }
 
@@ -231,9 +907,62 @@ function resolveSolFileSpecifier(specifier: string, sourceFileName: string, node
   }
 }
 
+/**
+ * Map a position in the compiled Solidity source back to the corresponding
+ * position in the template literal, accounting for interpolations whose
+ * resolved text may be longer or shorter than the `${expr}` syntax. Positions
+ * inside an interpolation map to the start or end (per `side`) of its
+ * expression. Pass the `options` the template was extracted with.
+ */
+export function mapTemplateOffset(
+  ts: TS,
+  template: typescript.TemplateLiteral,
+  sourceFile: typescript.SourceFile,
+  compiledPos: number,
+  side: "start" | "end",
+  options: ResolveOptions = {},
+): number {
+  // No interpolations — compiled source is a 1:1 match with the template text
+  if (ts.isNoSubstitutionTemplateLiteral(template)) {
+    return template.getStart(sourceFile) + 1 + compiledPos; // +1 for backtick
+  }
+
+  // TemplateExpression: walk head + spans, tracking compiled offset
+  const expr = template as typescript.TemplateExpression;
+  let compiledOffset = 0;
+
+  // Head text region (1:1 with editor)
+  const headLen = expr.head.text.length;
+  if (compiledPos < compiledOffset + headLen) {
+    return expr.head.getStart(sourceFile) + 1 + (compiledPos - compiledOffset);
+  }
+  compiledOffset += headLen;
+
+  for (const span of expr.templateSpans) {
+    // Resolved expression region — map to the expression node in the editor
+    const resolved = resolveInterpolation(ts, span.expression, sourceFile, options);
+    const resolvedLen = resolved?.length ?? 0;
+    if (compiledPos < compiledOffset + resolvedLen) {
+      return side === "start" ? span.expression.getStart(sourceFile) : span.expression.getEnd();
+    }
+    compiledOffset += resolvedLen;
+
+    // Literal text region after expression (1:1 with editor)
+    const litLen = span.literal.text.length;
+    if (compiledPos < compiledOffset + litLen) {
+      return span.literal.getStart(sourceFile) + 1 + (compiledPos - compiledOffset);
+    }
+    compiledOffset += litLen;
+  }
+
+  // Past the end — return end of template
+  return template.getEnd() - 1;
+}
+
 /**
  * Extract the full Solidity source from a tagged template, resolving interpolations.
- * Returns undefined if any interpolation can't be statically resolved.
+ * Returns undefined if any interpolation can't be statically resolved, or
+ * with `options.strict` throws {@link UnresolvedInterpolationError} naming it.
  *
  * Throws {@link SolFileError} if a `solFile(...)` interpolation's file read
  * failed — callers should catch this to render a useful diagnostic.
@@ -242,6 +971,7 @@ export function extractTemplateSource(
   ts: TS,
   template: typescript.TemplateLiteral,
   sourceFile: typescript.SourceFile,
+  options: ResolveOptions = {},
 ): string | undefined {
   if (ts.isNoSubstitutionTemplateLiteral(template)) {
     return template.text;
@@ -249,9 +979,35 @@ export function extractTemplateSource(
 
   let result = template.head.text;
   for (const span of template.templateSpans) {
-    const resolved = resolveStringExpression(ts, span.expression, sourceFile);
-    if (resolved === undefined) return undefined;
+    let failure: UnresolvedExpression | undefined;
+    const resolved = resolveInterpolation(ts, span.expression, sourceFile, {
+      ...options,
+      onUnresolved: (unresolved) => {
+        failure ??= unresolved;
+        options.onUnresolved?.(unresolved);
+      },
+    });
+    if (resolved === undefined) {
+      if (!options.strict) return undefined;
+      throw new UnresolvedInterpolationError({
+        node: span.expression,
+        text: textOf(span.expression, sourceFile),
+        reason: describeFailure(failure, sourceFile),
+      });
+    }
     result += resolved + span.literal.text;
   }
   return result;
 }
+
+/**
+ * A failure's reason, with its location when it's in another module.
+ */
+function describeFailure(failure: UnresolvedExpression | undefined, sourceFile: typescript.SourceFile): string {
+  if (!failure) return "it isn't statically resolvable";
+  if (failure.sourceFile === sourceFile) return failure.reason;
+  const { line, character } = failure.sourceFile.getLineAndCharacterOfPosition(
+    failure.node.getStart(failure.sourceFile),
+  );
+  return `${failure.reason} (${failure.sourceFile.fileName}:${line + 1}:${character + 1})`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Babel plugin for soltag, for toolchains that run Babel but none of the
+ * bundler plugins: Metro (React Native), babel-loader, `@babel/cli`.
+ * Compiles synchronously on Babel's thread, like the standalone loader.
+ *
+ * Usage (babel.config.js):
+ * ```js
+ * module.exports = {
+ *   presets: ['module:@react-native/babel-preset'],
+ *   plugins: [['soltag/babel', { solc: { optimizer: { enabled: true, runs: 200 } } }]],
+ * };
+ * ```
+ *
+ * Templates are found and compiled from the file's original code by the same
+ * core as the other plugins, then replaced on Babel's AST. Babel only takes
+ * external dependencies while it creates the plugin, so the files templates
+ * read are recorded as they compile, and the plugin is re-created — reporting
+ * them through `api.addExternalDependency` — before the next file Babel
+ * transforms, and whenever one of them changes.
+ */
+
+import * as fs from "fs";
+
+import ts from "typescript";
+
+import { configCacheKey, resolveConfig } from "../config.js";
+
+import { emitWarnings } from "./errors.js";
+import { compileSolTemplates, type SoltagPluginOptions } from "./unplugin.js";
+
+// Minimal Babel types, to avoid depending on @babel/core
+interface BabelNode {
+  type: string;
+  start?: number | null;
+  end?: number | null;
+}
+
+interface NodePath {
+  node: BabelNode;
+  scope: { generateUidIdentifier(name: string): BabelNode };
+  traverse(visitor: { TaggedTemplateExpression(path: NodePath): void }): void;
+  replaceWith(node: BabelNode): void;
+  skip(): void;
+  unshiftContainer(key: "body", node: BabelNode): void;
+}
+
+interface PluginPass {
+  file: {
+    code: string;
+    opts: { filename?: string | null; cwd?: string };
+  };
+}
+
+interface BabelAPI {
+  types: {
+    identifier(name: string): BabelNode;
+    stringLiteral(value: string): BabelNode;
+    newExpression(callee: BabelNode, args: BabelNode[]): BabelNode;
+    valueToNode(value: unknown): BabelNode;
+    importDeclaration(specifiers: BabelNode[], source: BabelNode): BabelNode;
+    importSpecifier(local: BabelNode, imported: BabelNode): BabelNode;
+  };
+  cache: { using<T>(fn: () => T): T };
+  addExternalDependency(file: string): void;
+}
+
+// File → the files its templates read, from its latest transform. Kept across plugin instances, since
+// Babel re-creates the plugin to report them; a file's entry is replaced whenever it's transformed again
+const dependencies = new Map<string, string[]>();
+
+// Project root → its resolved config's cache key, resolved on first use
+const configKeys = new Map<string, string>();
+
+/** Every file's recorded dependencies */
+function recordedDependencies(): Set<string> {
+  return new Set([...dependencies.values()].flat());
+}
+
+/** The modification time of every recorded dependency, and which ones exist */
+function dependencyKey(): string {
+  return [...recordedDependencies()]
+    .map((file) => {
+      try {
+        return `${file}@${fs.statSync(file).mtimeMs}`;
+      } catch {
+        return `${file}@missing`;
+      }
+    })
+    .join("\n");
+}
+
+export default function soltagBabel(api: BabelAPI, options: SoltagPluginOptions = {}) {
+  const t = api.types;
+  const root = options.root ?? process.cwd();
+  let configKey = configKeys.get(root);
+  if (configKey === undefined) {
+    configKey = configCacheKey(resolveConfig(ts, root, options));
+    configKeys.set(root, configKey);
+  }
+  // Babel reuses the plugin while the config and the recorded dependencies stay the same
+  api.cache.using(() => `${configKey}\n${dependencyKey()}`);
+  for (const file of recordedDependencies()) api.addExternalDependency(file);
+
+  return {
+    name: "soltag",
+    visitor: {
+      Program(path: NodePath, state: PluginPass) {
+        const { filename, cwd } = state.file.opts;
+        if (!filename) return;
+
+        const compiled = compileSolTemplates(state.file.code, filename, { ...options, root: options.root ?? cwd });
+        if (compiled?.dependencies.length) dependencies.set(filename, compiled.dependencies);
+        else dependencies.delete(filename);
+        if (!compiled) return;
+        emitWarnings(compiled.warnings);
+
+        // Both parsers see the same code, so templates match by their offsets
+        const templates = new Map(compiled.templates.map((template) => [template.start, template]));
+        const inlineContract = path.scope.generateUidIdentifier("InlineContract");
+        path.traverse({
+          TaggedTemplateExpression(tagged) {
+            const template = templates.get(tagged.node.start ?? -1);
+            if (!template || tagged.node.end !== template.end) return;
+            tagged.replaceWith(
+              t.newExpression(inlineContract, [
+                t.stringLiteral(template.contractName),
+                t.valueToNode(template.artifacts),
+              ]),
+            );
+            tagged.skip();
+          },
+        });
+        path.unshiftContainer(
+          "body",
+          t.importDeclaration(
+            [t.importSpecifier(inlineContract, t.identifier("InlineContract"))],
+            t.stringLiteral("soltag"),
+          ),
+        );
+      },
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Bun plugin for soltag, for both `bun build` and Bun's runtime. Compiles
+ * synchronously in the `onLoad` handler, like the standalone loader.
+ *
+ * Usage (build.ts):
+ * ```ts
+ * import soltag from 'soltag/bun';
+ *
+ * await Bun.build({ entrypoints: ['./src/index.ts'], outdir: './dist', plugins: [soltag()] });
+ * ```
+ *
+ * Usage at runtime (bunfig.toml: `preload = ["./soltag.preload.ts"]`):
+ * ```ts
+ * // soltag.preload.ts
+ * import soltag from 'soltag/bun';
+ *
+ * Bun.plugin(soltag());
+ * ```
+ */
+
+import * as fs from "fs";
+
+import ts from "typescript";
+
+import { createExcludeFilter, resolveConfig } from "../config.js";
+import { SOL_MODULE_FILTER } from "../sol-modules.js";
+
+import { emitWarnings } from "./errors.js";
+import { type SoltagPluginOptions, transformSolModule, transformSolTemplates } from "./unplugin.js";
+
+// Minimal Bun types, to avoid depending on bun-types
+type BunLoader = "js" | "jsx" | "ts" | "tsx";
+
+interface OnLoadArgs {
+  path: string;
+  loader?: string;
+}
+
+interface OnLoadResult {
+  contents: string;
+  loader: string;
+}
+
+interface PluginBuilder {
+  /** The `Bun.build` config; unset for runtime plugins (`Bun.plugin`) */
+  config?: object;
+  /** Returning undefined leaves the file to the next plugin, or Bun's own loader — in `Bun.build` only */
+  onLoad(
+    constraints: { filter: RegExp },
+    callback: (args: OnLoadArgs) => OnLoadResult | undefined | Promise<OnLoadResult | undefined>,
+  ): unknown;
+}
+
+export interface BunPlugin {
+  name: string;
+  setup(build: PluginBuilder): void;
+}
+
+/** Bun's loader for a file, from its extension */
+function loaderFor(file: string): BunLoader {
+  if (file.endsWith(".tsx")) return "tsx";
+  if (file.endsWith(".jsx")) return "jsx";
+  return /\.[mc]?ts$/.test(file) ? "ts" : "js";
+}
+
+export default function soltag(options?: SoltagPluginOptions): BunPlugin {
+  const { include, exclude } = resolveConfig(ts, options?.root ?? process.cwd(), options);
+  const filter = new RegExp(`(${include.map((ext) => ext.replace(".", "\\.")).join("|")})$`);
+  const isExcluded = createExcludeFilter(exclude);
+
+  return {
+    name: "soltag",
+    setup(build) {
+      // Bun.build loads files the plugin leaves alone itself; at runtime every onLoad must return
+      // contents, so those files are returned as they are
+      const passThrough = async (args: OnLoadArgs, code?: string) =>
+        build.config
+          ? undefined
+          : {
+              contents: code ?? (await fs.promises.readFile(args.path, "utf-8")),
+              loader: args.loader ?? loaderFor(args.path),
+            };
+
+      build.onLoad({ filter }, async (args) => {
+        if (isExcluded(args.path)) return passThrough(args);
+        const code = await fs.promises.readFile(args.path, "utf-8");
+        const result = transformSolTemplates(code, args.path, options);
+        if (!result) return passThrough(args, code);
+        // Bun has no warning channel for plugins
+        emitWarnings(result.warnings);
+        return { contents: result.code, loader: args.loader ?? loaderFor(args.path) };
+      });
+
+      // `import Lens from "./Lens.sol"`
+      build.onLoad({ filter: SOL_MODULE_FILTER }, async (args) => {
+        const result = transformSolModule(await fs.promises.readFile(args.path, "utf-8"), args.path, options);
+        emitWarnings(result.warnings);
+        return { contents: result.code, loader: "js" };
+      });
+    },
+  };
+}
@@ -0,0 +1,284 @@
+import * as path from "path";
+
+import ts from "typescript";
+
+import { mapTemplateOffset, type ResolveOptions } from "../ast-utils.js";
+import type { SolcError, SolidityCompilationError } from "../solc.js";
+import { missingContractMessage } from "../suggest.js";
+
+/**
+ * A solc diagnostic located in the TypeScript file that holds the template.
+ */
+export interface SoltagDiagnostic {
+  severity: "error" | "warning" | "info";
+  /** solc error code, e.g. `"7576"` */
+  code?: string;
+  message: string;
+  file: string;
+  /** 1-based */
+  line: number;
+  /** 0-based, like Rollup's `loc.column` */
+  column: number;
+  /** Source excerpt with the span underlined */
+  frame: string;
+}
+
+/**
+ * Thrown by the bundler transform when a template (or an imported `.sol`
+ * module) fails to compile. `loc` and `frame` describe the first error in the
+ * shape Rollup and Vite expect, so Vite's overlay shows the excerpt and opens
+ * the file at the error.
+ */
+export class SoltagCompileError extends Error {
+  readonly id: string;
+  readonly contractName: string;
+  readonly compilerVersion: string;
+  /** Every diagnostic of the compilation, warnings included */
+  readonly diagnostics: SoltagDiagnostic[];
+  readonly loc: { file: string; line: number; column: number };
+  readonly frame: string;
+
+  constructor(args: {
+    id: string;
+    contractName: string;
+    compilerVersion: string;
+    diagnostics: SoltagDiagnostic[];
+    /** What failed, for the message. Defaults to `sol("Name")` */
+    subject?: string;
+  }) {
+    const errors = args.diagnostics.filter((d) => d.severity === "error");
+    const version = args.compilerVersion.split("+")[0];
+    const body = errors.map(formatDiagnostic).join("\n\n");
+    super(`${args.subject ?? `sol("${args.contractName}")`} failed to compile (solc ${version}):\n${body}`);
+    this.name = "SoltagCompileError";
+    this.id = args.id;
+    this.contractName = args.contractName;
+    this.compilerVersion = args.compilerVersion;
+    this.diagnostics = args.diagnostics;
+    const [first] = errors;
+    this.loc = { file: first.file, line: first.line, column: first.column };
+    this.frame = first.frame;
+  }
+}
+
+/** `file:line:column — severity code: message` followed by the code frame */
+export function formatDiagnostic(d: SoltagDiagnostic): string {
+  return `${d.file}:${d.line}:${d.column + 1} — ${d.severity}${d.code ? ` ${d.code}` : ""}: ${d.message}\n${d.frame}`;
+}
+
+/**
+ * Report located warnings as `SoltagWarning` process warnings, for hosts with
+ * no warning channel of their own (Node's loaders, Babel, Bun). They can be
+ * silenced with `--no-warnings` or observed with `process.on("warning")`.
+ */
+export function emitWarnings(warnings: SoltagDiagnostic[]): void {
+  for (const warning of warnings) process.emitWarning(formatDiagnostic(warning), "SoltagWarning");
+}
+
+/**
+ * Lines around `start`–`end` with a gutter, the first line of the span
+ * marked with `>` and underlined with `^`.
+ */
+export function codeFrame(code: string, start: ts.LineAndCharacter, end: ts.LineAndCharacter, context = 2): string {
+  const lines = code.split(/\r?\n/);
+  const first = Math.max(0, start.line - context);
+  const last = Math.min(lines.length - 1, start.line + context);
+  const width = String(last + 1).length;
+
+  const out: string[] = [];
+  for (let i = first; i <= last; i++) {
+    const gutter = String(i + 1).padStart(width);
+    out.push(`${i === start.line ? ">" : " "} ${gutter} | ${lines[i]}`.trimEnd());
+    if (i === start.line) {
+      const spanEnd = end.line === start.line ? end.character : lines[i].length;
+      const underline = "^".repeat(Math.max(1, spanEnd - start.character));
+      out.push(`  ${" ".repeat(width)} | ${lines[i].slice(0, start.character).replace(/\S/g, " ")}${underline}`);
+    }
+  }
+  return out.join("\n");
+}
+
+/**
+ * Locate a solc diagnostic in the TypeScript file. Diagnostics in the template
+ * map through its interpolations (see {@link mapTemplateOffset}); those in
+ * imported `.sol` files point at the whole template and name the file.
+ */
+function locateDiagnostic(
+  error: SolcError,
+  sourceName: string,
+  template: ts.TemplateLiteral,
+  sourceFile: ts.SourceFile,
+  options: ResolveOptions,
+): SoltagDiagnostic {
+  let start = template.getStart(sourceFile);
+  let end = template.getEnd();
+  let message = error.message;
+
+  if (error.sourceLocation?.file === sourceName) {
+    start = mapTemplateOffset(ts, template, sourceFile, error.sourceLocation.start, "start", options);
+    end = Math.max(start + 1, mapTemplateOffset(ts, template, sourceFile, error.sourceLocation.end, "end", options));
+  } else if (error.sourceLocation) {
+    message = `${error.sourceLocation.file}: ${message}`;
+  }
+
+  return spanDiagnostic(
+    severityOf(error),
+    error.errorCode,
+    message,
+    sourceFile.fileName,
+    sourceFile.text,
+    sourceFile.getLineAndCharacterOfPosition(start),
+    sourceFile.getLineAndCharacterOfPosition(end),
+  );
+}
+
+function severityOf(error: SolcError): SoltagDiagnostic["severity"] {
+  return error.severity === "error" || error.severity === "warning" ? error.severity : "info";
+}
+
+function spanDiagnostic(
+  severity: SoltagDiagnostic["severity"],
+  code: string | undefined,
+  message: string,
+  file: string,
+  text: string,
+  start: ts.LineAndCharacter,
+  end: ts.LineAndCharacter,
+): SoltagDiagnostic {
+  return {
+    severity,
+    code,
+    message,
+    file,
+    line: start.line + 1,
+    column: start.character,
+    frame: codeFrame(text, start, end),
+  };
+}
+
+/**
+ * Turn a failed compilation of the template `template` into a
+ * {@link SoltagCompileError} located in its TypeScript file. `options` must
+ * be the ones the template was extracted with, so interpolations map to the
+ * same lengths.
+ */
+export function createCompileError(
+  failure: SolidityCompilationError,
+  contractName: string,
+  template: ts.TemplateLiteral,
+  sourceFile: ts.SourceFile,
+  options: ResolveOptions,
+): SoltagCompileError {
+  return new SoltagCompileError({
+    id: sourceFile.fileName,
+    contractName,
+    compilerVersion: failure.compilerVersion,
+    diagnostics: failure.diagnostics.map((error) =>
+      locateDiagnostic(error, failure.sourceName, template, sourceFile, options),
+    ),
+  });
+}
+
+/**
+ * Locate the warnings of a successful compilation in the template's file,
+ * like {@link createCompileError} does for errors.
+ */
+export function locateWarnings(
+  warnings: SolcError[],
+  sourceName: string,
+  template: ts.TemplateLiteral,
+  sourceFile: ts.SourceFile,
+  options: ResolveOptions,
+): SoltagDiagnostic[] {
+  return warnings.map((warning) => locateDiagnostic(warning, sourceName, template, sourceFile, options));
+}
+
+/**
+ * The template compiled, but defines no contract named `contractName`. Points
+ * at the name in `sol("...")` and suggests the closest of the `available`
+ * contracts.
+ */
+export function createMissingContractError(
+  contractName: string,
+  available: string[],
+  compilerVersion: string,
+  template: ts.TemplateLiteral,
+  sourceFile: ts.SourceFile,
+): SoltagCompileError {
+  const { tag } = template.parent as ts.TaggedTemplateExpression;
+  const name = ts.isCallExpression(tag) && tag.arguments.length > 0 ? tag.arguments[0] : tag;
+  const message = missingContractMessage(contractName, available);
+  return new SoltagCompileError({
+    id: sourceFile.fileName,
+    contractName,
+    compilerVersion,
+    diagnostics: [
+      spanDiagnostic(
+        "error",
+        undefined,
+        message,
+        sourceFile.fileName,
+        sourceFile.text,
+        sourceFile.getLineAndCharacterOfPosition(name.getStart(sourceFile)),
+        sourceFile.getLineAndCharacterOfPosition(name.getEnd()),
+      ),
+    ],
+  });
+}
+
+// --- .sol modules ---
+
+function lineAndCharacter(text: string, offset: number): ts.LineAndCharacter {
+  const lines = text.slice(0, offset).split("\n");
+  return { line: lines.length - 1, character: lines[lines.length - 1].length };
+}
+
+/**
+ * Locate a solc diagnostic in an imported `.sol` module. The module is
+ * compiled as-is, so offsets map straight onto `code`; diagnostics in files it
+ * imports point at its first line and name the file.
+ */
+export function locateSolModuleDiagnostic(
+  error: SolcError,
+  sourceName: string,
+  file: string,
+  code: string,
+): SoltagDiagnostic {
+  let start = 0;
+  let end = 1;
+  let message = error.message;
+  if (error.sourceLocation?.file === sourceName) {
+    // File-level diagnostics (e.g. the missing SPDX license) have offset -1
+    start = Math.max(0, error.sourceLocation.start);
+    end = Math.max(start + 1, error.sourceLocation.end);
+  } else if (error.sourceLocation) {
+    message = `${error.sourceLocation.file}: ${message}`;
+  }
+  return spanDiagnostic(
+    severityOf(error),
+    error.errorCode,
+    message,
+    file,
+    code,
+    lineAndCharacter(code, start),
+    lineAndCharacter(code, end),
+  );
+}
+
+/**
+ * Turn a failed compilation of the `.sol` module `file` into a
+ * {@link SoltagCompileError} located in the module.
+ */
+export function createSolModuleError(
+  failure: SolidityCompilationError,
+  file: string,
+  code: string,
+): SoltagCompileError {
+  return new SoltagCompileError({
+    id: file,
+    contractName: path.basename(file, ".sol"),
+    compilerVersion: failure.compilerVersion,
+    diagnostics: failure.diagnostics.map((error) => locateSolModuleDiagnostic(error, failure.sourceName, file, code)),
+    subject: path.basename(file),
+  });
+}
@@ -1,6 +1,7 @@
 /**
  * Standalone webpack loader for soltag. Compatible with Turbopack via
- * `turbopack.rules` in next.config.js.
+ * `turbopack.rules` in next.config.js. Compiles synchronously on the
+ * loader's thread; the bundler plugins use the worker pool instead.
  *
  * Usage (next.config.js):
  * ```js
@@ -9,29 +10,47 @@
  *     rules: {
  *       '*.ts': { loaders: [{ loader: 'soltag/loader' }] },
  *       '*.tsx': { loaders: [{ loader: 'soltag/loader' }] },
+ *       // `import Lens from "./Lens.sol"`
+ *       '*.sol': { loaders: [{ loader: 'soltag/loader' }], as: '*.js' },
  *     },
  *   },
  * };
  * ```
  */
 
+import { SOL_MODULE_FILTER } from "../sol-modules.js";
+
+import { formatDiagnostic } from "./errors.js";
 import type { SoltagPluginOptions } from "./unplugin.js";
-import { transformSolTemplates } from "./unplugin.js";
+import { transformSolModule, transformSolTemplates } from "./unplugin.js";
 
 interface LoaderContext {
   resourcePath: string;
+  addDependency: (file: string) => void;
   callback: (err: Error | null, content?: string, sourceMap?: unknown) => void;
+  emitWarning: (warning: Error) => void;
   getOptions: () => SoltagPluginOptions;
 }
 
 export default function soltagLoader(this: LoaderContext, source: string) {
   const options = this.getOptions();
-  const result = transformSolTemplates(source, this.resourcePath, options);
+  let result: ReturnType<typeof transformSolTemplates> | ReturnType<typeof transformSolModule>;
+  try {
+    result = SOL_MODULE_FILTER.test(this.resourcePath)
+      ? transformSolModule(source, this.resourcePath, options)
+      : transformSolTemplates(source, this.resourcePath, options);
+  } catch (err) {
+    // Compile errors carry the template's location and a code frame in their message
+    this.callback(err as Error);
+    return;
+  }
 
   if (!result) {
     this.callback(null, source);
     return;
   }
 
-  this.callback(null, result.code, result.map);
+  for (const dep of result.dependencies) this.addDependency(dep);
+  for (const warning of result.warnings) this.emitWarning(new Error(formatDiagnostic(warning)));
+  this.callback(null, result.code, "map" in result ? result.map : undefined);
 }
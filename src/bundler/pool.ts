@@ -0,0 +1,186 @@
+/**
+ * Worker-thread pool for solc. Bundlers transform many modules concurrently,
+ * so compiling off the main thread lets independent templates compile in
+ * parallel instead of serializing inside the transform hook.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import { fileURLToPath } from "url";
+import { Worker } from "worker_threads";
+
+import {
+  type CompileContext,
+  compileToArtifacts,
+  type SolcError,
+  type SolcInputOptions,
+  SolidityCompilationError,
+  type WarningPolicy,
+} from "../solc.js";
+
+export interface CompileRequest {
+  source: string;
+  options?: SolcInputOptions;
+  context?: CompileContext;
+  warnings?: WarningPolicy;
+}
+
+export type CompileResult = ReturnType<typeof compileToArtifacts>;
+
+export type WorkerMessage =
+  | { id: number; result: CompileResult }
+  | {
+      id: number;
+      error: string;
+      /** Set when solc reported errors, to rethrow a {@link SolidityCompilationError} */
+      compilation?: { diagnostics: SolcError[]; sourceName: string; compilerVersion: string };
+    };
+
+interface Job {
+  id: number;
+  request: CompileRequest;
+  resolve: (result: CompileResult) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Default pool size: one worker per core, leaving one for the bundler itself.
+ */
+export function defaultPoolSize(): number {
+  return Math.max(1, os.availableParallelism() - 1);
+}
+
+/**
+ * The compiled worker sits next to the bundled plugin in `dist/`. When
+ * running from source there is no compiled worker, and the pool compiles
+ * in-process instead, with a warning (see {@link CompilePool}).
+ */
+function defaultWorkerFile(): string | undefined {
+  const file = fileURLToPath(new URL("./worker.js", import.meta.url));
+  return fs.existsSync(file) ? file : undefined;
+}
+
+/**
+ * Identity of a request for in-flight deduplication. The template's
+ * directory only matters when it has imports, so identical import-free
+ * templates in different files share one compilation.
+ */
+function requestKey({ source, options, context, warnings }: CompileRequest): string {
+  const { basePath, owner: _owner, ...rest } = context ?? { basePath: "" };
+  const location = /\bimport\b/.test(source) ? basePath : "";
+  return JSON.stringify([source, options, rest, location, warnings]);
+}
+
+export class CompilePool {
+  private readonly size: number;
+  private readonly workerFile: string | undefined;
+  private idle: Worker[] = [];
+  private busy = new Map<Worker, Job>();
+  private queue: Job[] = [];
+  private inFlight = new Map<string, Promise<CompileResult>>();
+  private nextId = 0;
+
+  /**
+   * Without a worker script the pool compiles on the calling thread whatever
+   * `size` is, and says so with a `SoltagWarning` when `size` asked for workers.
+   *
+   * @param size - Number of workers; `0` compiles on the calling thread
+   * @param workerFile - Worker script; defaults to the compiled `worker.js`
+   */
+  constructor(size = defaultPoolSize(), workerFile = defaultWorkerFile()) {
+    this.size = workerFile ? size : 0;
+    this.workerFile = workerFile;
+    if (size > 0 && !workerFile) {
+      process.emitWarning(
+        `soltag: no compiled worker found next to ${fileURLToPath(import.meta.url)}; compiling on the main thread`,
+        "SoltagWarning",
+      );
+    }
+  }
+
+  /**
+   * Compile a template. Identical requests made while one is still
+   * compiling share its result.
+   */
+  compile(request: CompileRequest): Promise<CompileResult> {
+    const key = requestKey(request);
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = this.run(request).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Stop all workers. Queued jobs are rejected; the pool starts new
+   * workers if it is used again.
+   */
+  async terminate(): Promise<void> {
+    const workers = [...this.idle, ...this.busy.keys()];
+    for (const job of [...this.busy.values(), ...this.queue]) {
+      job.reject(new Error("soltag: compile pool terminated"));
+    }
+    this.idle = [];
+    this.busy.clear();
+    this.queue = [];
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private run(request: CompileRequest): Promise<CompileResult> {
+    if (this.size === 0) {
+      try {
+        const { source, options, context, warnings } = request;
+        return Promise.resolve(compileToArtifacts(source, options, context, warnings));
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, request, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.busy.size < this.size ? this.spawn() : undefined);
+      if (!worker) return;
+      const job = this.queue.shift()!;
+      this.busy.set(worker, job);
+      worker.ref();
+      worker.postMessage({ id: job.id, request: job.request });
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(this.workerFile!);
+
+    worker.on("message", (message: WorkerMessage) => {
+      const job = this.busy.get(worker);
+      if (!job || job.id !== message.id) return;
+      this.busy.delete(worker);
+      // Idle workers shouldn't keep the bundler process alive
+      worker.unref();
+      this.idle.push(worker);
+      if ("error" in message) {
+        job.reject(message.compilation ? new SolidityCompilationError(message.compilation) : new Error(message.error));
+      } else {
+        job.resolve(message.result);
+      }
+      this.dispatch();
+    });
+
+    worker.on("error", (err: Error) => {
+      // A crashed worker is replaced on the next dispatch
+      const job = this.busy.get(worker);
+      this.busy.delete(worker);
+      this.idle = this.idle.filter((w) => w !== worker);
+      job?.reject(err);
+      this.dispatch();
+    });
+
+    return worker;
+  }
+}
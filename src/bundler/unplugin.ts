@@ -1,66 +1,151 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+
 import MagicString from "magic-string";
 import ts from "typescript";
 import { createUnplugin } from "unplugin";
 
-import { extractTemplateSource, isSolTag, SolFileError } from "../ast-utils.js";
-import { compileToArtifacts } from "../solc.js";
-
-export interface SoltagPluginOptions {
-  /** Extra file extensions to include. Defaults to ['.ts', '.tsx', '.mts', '.cts'] */
-  include?: string[];
-  /** Patterns to exclude. Defaults to [/node_modules/] */
-  exclude?: RegExp[];
-  /** Solc compiler settings */
-  solc?: {
-    /** Optimizer settings */
-    optimizer?: {
-      enabled?: boolean;
-      runs?: number;
-    };
-  };
+import {
+  extractTemplateSource,
+  isSolTag,
+  type ResolveOptions,
+  SolFileError,
+  UnresolvedInterpolationError,
+} from "../ast-utils.js";
+import { compileContextFor, resolveConfig, type SoltagConfig } from "../config.js";
+import type { CompilationResult } from "../index.js";
+import { createFileSystemModuleHost, loadCompilerOptions, type ModuleHost } from "../module-host.js";
+import { primaryContract, SOL_MODULE_FILTER } from "../sol-modules.js";
+import { compileToArtifacts, mergeSolcSettings, SolidityCompilationError } from "../solc.js";
+
+import {
+  createCompileError,
+  createMissingContractError,
+  createSolModuleError,
+  formatDiagnostic,
+  locateSolModuleDiagnostic,
+  locateWarnings,
+  SoltagCompileError,
+  type SoltagDiagnostic,
+} from "./errors.js";
+import { CompilePool, type CompileRequest, type CompileResult } from "./pool.js";
+import { VirtualModules } from "./virtual-modules.js";
+
+/**
+ * Plugin options override the project's `soltag.config.*` and Foundry profile.
+ */
+export interface SoltagPluginOptions extends SoltagConfig {
+  /**
+   * Project root. `soltag.config.*`, `foundry.toml` and `remappings.txt` are
+   * looked up from here. Defaults to `process.cwd()`
+   */
+  root?: string;
+}
+
+interface TemplateSite {
+  start: number;
+  end: number;
+  contractName: string;
+  request: CompileRequest;
+  /** Where the template is, and how it was resolved — to locate compile errors */
+  template: ts.TemplateLiteral;
+  sourceFile: ts.SourceFile;
+  resolveOptions: ResolveOptions;
 }
 
+type TransformResult = {
+  code: string;
+  map: ReturnType<MagicString["generateMap"]>;
+  dependencies: string[];
+  /** solc warnings left after the warning policy, located in the module; empty with `warnings.report: false` */
+  warnings: SoltagDiagnostic[];
+};
+
+type SolModuleResult = { code: string; dependencies: string[]; warnings: SoltagDiagnostic[] };
+
 /**
- * Core transform logic, exported for testing and the standalone webpack loader.
+ * Module hosts by project root. Bundlers hand the plugin one module at a
+ * time, so modules that interpolated constants are imported from are parsed
+ * from disk, resolving imports with the root's tsconfig.
  */
-export function transformSolTemplates(
+const moduleHosts = new Map<string, ModuleHost>();
+
+function moduleHostFor(root: string): ModuleHost {
+  let host = moduleHosts.get(root);
+  if (!host) {
+    host = createFileSystemModuleHost(ts, loadCompilerOptions(ts, root));
+    moduleHosts.set(root, host);
+  }
+  return host;
+}
+
+/**
+ * Find every `sol("Name")` template in a module and build its compile
+ * request. Files read to resolve interpolations (`solFile` targets and the
+ * modules imported constants come from) are added to `dependencies`.
+ * Returns undefined when the module has nothing to transform.
+ */
+function collectTemplates(
   code: string,
   id: string,
+  dependencies: Set<string>,
   options?: SoltagPluginOptions,
-): { code: string; map: ReturnType<MagicString["generateMap"]> } | undefined {
-  // Regex fast-path: skip parsing if "sol" tag isn't present
-  // Matches: sol("...") or sol('...') allow whitespace
-  if (!/\bsol\s*\(\s*["'][^"']+["']\s*\)/.test(code)) return undefined;
+): TemplateSite[] | undefined {
+  // Regex fast-path: templates are only recognized with `sol` imported from "soltag" (under any name),
+  // so skip parsing modules that never mention the package
+  if (!/["']soltag["']/.test(code)) return undefined;
 
   const sourceFile = ts.createSourceFile(id, code, ts.ScriptTarget.Latest, true);
-  const s = new MagicString(code);
-  let hasReplacements = false;
+  const sites: TemplateSite[] = [];
+  const root = options?.root ?? process.cwd();
+  const config = resolveConfig(ts, root, options);
+  const context = compileContextFor(config, id);
+  const resolveOptions: ResolveOptions = { dependencies, modules: moduleHostFor(root), strict: config.strict };
+
+  function locate(node: ts.Node): string {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return `${id}:${line + 1}:${character + 1}`;
+  }
 
   function visit(node: ts.Node) {
     if (ts.isTaggedTemplateExpression(node)) {
-      const solTag = isSolTag(ts, node.tag);
+      const solTag = isSolTag(ts, node.tag, sourceFile);
       if (solTag) {
+        if (solTag.unresolvedSettings) {
+          throw new Error(
+            `${locate(solTag.unresolvedSettings)} — sol("${solTag.contractName}") settings must be a statically-resolvable object literal`,
+          );
+        }
+
         let soliditySource: string | undefined;
         try {
-          soliditySource = extractTemplateSource(ts, node.template, sourceFile);
+          soliditySource = extractTemplateSource(ts, node.template, sourceFile, resolveOptions);
         } catch (err) {
-          if (err instanceof SolFileError) {
-            const { line, character } = sourceFile.getLineAndCharacterOfPosition(err.node.getStart(sourceFile));
-            throw new Error(`${id}:${line + 1}:${character + 1} — ${err.message}`);
+          if (err instanceof SolFileError || err instanceof UnresolvedInterpolationError) {
+            throw new Error(`${locate(err.node)} — ${err.message}`);
           }
           throw err;
         }
 
         if (soliditySource === undefined) {
-          // Can't resolve at build time — leave for runtime
+          // Can't resolve at build time and `strict` is off — leave for runtime
           return;
         }
 
-        const artifacts = compileToArtifacts(soliditySource, options?.solc);
-
-        const replacement = `new __InlineContract(${JSON.stringify(solTag.contractName)}, ${JSON.stringify(artifacts)})`;
-        s.overwrite(node.getStart(sourceFile), node.getEnd(), replacement);
-        hasReplacements = true;
+        sites.push({
+          start: node.getStart(sourceFile),
+          end: node.getEnd(),
+          contractName: solTag.contractName,
+          request: {
+            source: soliditySource,
+            options: mergeSolcSettings(config.solc, solTag.settings),
+            context,
+            warnings: config.warnings,
+          },
+          template: node.template,
+          sourceFile,
+          resolveOptions,
+        });
         return; // Don't visit children
       }
     }
@@ -69,25 +154,323 @@ export function transformSolTemplates(
   }
 
   visit(sourceFile);
+  return sites.length > 0 ? sites : undefined;
+}
+
+/**
+ * Locate solc's errors in the template's TypeScript file. Other failures
+ * (missing compiler, invalid settings) pass through unchanged.
+ */
+function locateCompileError(err: unknown, site: TemplateSite): unknown {
+  if (!(err instanceof SolidityCompilationError)) return err;
+  return createCompileError(err, site.contractName, site.template, site.sourceFile, site.resolveOptions);
+}
+
+/**
+ * Fail the build when the template doesn't define the contract it's named
+ * after, rather than when `new InlineContract(...)` runs.
+ */
+function checkContract(result: CompileResult, site: TemplateSite): CompileResult {
+  if (site.contractName in result.artifacts) return result;
+  throw createMissingContractError(
+    site.contractName,
+    Object.keys(result.artifacts),
+    result.compilerVersion,
+    site.template,
+    site.sourceFile,
+  );
+}
+
+/**
+ * Prefix of the shared modules that hold compiled contracts, e.g.
+ * `virtual:soltag/3f2a9c0d1e4b5a67`.
+ */
+export const VIRTUAL_MODULE_PREFIX = "virtual:soltag/";
+
+/**
+ * A template compiled for replacement: the span of the tagged template
+ * expression in the module, and the contract that takes its place.
+ */
+export interface CompiledTemplate {
+  start: number;
+  end: number;
+  contractName: string;
+  /** Just the named contract: interfaces, libraries and other helpers in the same source are dropped */
+  artifacts: CompilationResult;
+}
 
-  if (!hasReplacements) return undefined;
+export interface CompiledTemplates {
+  templates: CompiledTemplate[];
+  /** Files read to compile the module, for watching */
+  dependencies: string[];
+  /** solc warnings left after the warning policy, located in the module; empty with `warnings.report: false` */
+  warnings: SoltagDiagnostic[];
+}
 
-  s.prepend('import { InlineContract as __InlineContract } from "soltag";\n');
+/**
+ * Pair each site with its compilation, collecting the files it read and its
+ * located warnings.
+ */
+function compiledTemplates(
+  sites: TemplateSite[],
+  results: CompileResult[],
+  dependencies: Set<string>,
+): CompiledTemplates {
+  const warnings: SoltagDiagnostic[] = [];
+  const templates = sites.map((site, i) => {
+    const { artifacts, dependencies: imported } = results[i];
+    for (const dep of imported) dependencies.add(dep);
+    if (site.request.warnings?.report !== false) {
+      const { sourceName, warnings: solcWarnings } = results[i];
+      warnings.push(...locateWarnings(solcWarnings, sourceName, site.template, site.sourceFile, site.resolveOptions));
+    }
+    const { start, end, contractName } = site;
+    return { start, end, contractName, artifacts: { [contractName]: artifacts[contractName] } };
+  });
+  return { templates, dependencies: [...dependencies], warnings };
+}
+
+/**
+ * Replace each template with its compiled contract. Without `modules` the
+ * `InlineContract` is constructed in place; with it, each distinct contract
+ * goes into a shared virtual module (registered in `modules` for `id`) that
+ * every importing module reuses. With `preserveLines`, every line of the
+ * output keeps its number (see {@link transformSolTemplates}).
+ */
+function applyTemplates(
+  code: string,
+  id: string,
+  compiled: CompiledTemplates,
+  modules?: VirtualModules,
+  preserveLines = false,
+): TransformResult {
+  const s = new MagicString(code);
+  const imports = new Set<string>();
+  const referenced = new Map<string, string>();
+
+  for (const template of compiled.templates) {
+    const constructed = `new __InlineContract(${JSON.stringify(template.contractName)}, ${JSON.stringify(template.artifacts)})`;
+    if (!modules) {
+      const padding = preserveLines ? "\n".repeat(code.slice(template.start, template.end).split("\n").length - 1) : "";
+      s.overwrite(template.start, template.end, constructed + padding);
+      continue;
+    }
+
+    const hash = createHash("sha256").update(constructed).digest("hex").slice(0, 16);
+    referenced.set(
+      hash,
+      `import { InlineContract as __InlineContract } from "soltag";\nexport default ${constructed};\n`,
+    );
+    imports.add(`import __soltag_${hash} from "${VIRTUAL_MODULE_PREFIX}${hash}";\n`);
+    s.overwrite(template.start, template.end, `__soltag_${hash}`);
+  }
+
+  if (modules) {
+    modules.update(id, referenced);
+    s.prepend([...imports].join(""));
+  } else if (preserveLines) {
+    // At the start of the first line, or of the second after a hashbang
+    const start = code.startsWith("#!") ? code.indexOf("\n") + 1 : 0;
+    s.appendLeft(start, 'import { InlineContract as __InlineContract } from "soltag"; ');
+  } else {
+    s.prepend('import { InlineContract as __InlineContract } from "soltag";\n');
+  }
 
   return {
     code: s.toString(),
     map: s.generateMap({ source: id, hires: true }),
+    dependencies: compiled.dependencies,
+    warnings: compiled.warnings,
+  };
+}
+
+/**
+ * Find and compile every template in a module on the calling thread, without
+ * rewriting it — for transforms that replace the templates on their own AST,
+ * like the Babel plugin. Undefined when the module has no templates.
+ */
+export function compileSolTemplates(
+  code: string,
+  id: string,
+  options?: SoltagPluginOptions,
+): CompiledTemplates | undefined {
+  const dependencies = new Set<string>();
+  const sites = collectTemplates(code, id, dependencies, options);
+  if (!sites) return undefined;
+
+  const results = sites.map((site) => {
+    const { source, options: settings, context, warnings } = site.request;
+    let result: CompileResult;
+    try {
+      result = compileToArtifacts(source, settings, context, warnings);
+    } catch (err) {
+      throw locateCompileError(err, site);
+    }
+    return checkContract(result, site);
+  });
+  return compiledTemplates(sites, results, dependencies);
+}
+
+/**
+ * Core transform logic, exported for testing, the standalone webpack loader
+ * and the Node register hooks. Compiles on the calling thread; see
+ * {@link transformSolTemplatesAsync}.
+ *
+ * `preserveLines` pads each replaced template with the newlines it spanned and
+ * injects the import without a newline, for callers that compile the output
+ * again without composing source maps.
+ */
+export function transformSolTemplates(
+  code: string,
+  id: string,
+  options?: SoltagPluginOptions,
+  preserveLines = false,
+): TransformResult | undefined {
+  const compiled = compileSolTemplates(code, id, options);
+  return compiled && applyTemplates(code, id, compiled, undefined, preserveLines);
+}
+
+/**
+ * {@link transformSolTemplates}, with every template in the module compiled
+ * concurrently on `pool`. When `modules` is given, contracts are emitted as
+ * shared virtual modules (see {@link VIRTUAL_MODULE_PREFIX}) registered there.
+ */
+export async function transformSolTemplatesAsync(
+  code: string,
+  id: string,
+  pool: CompilePool,
+  options?: SoltagPluginOptions,
+  modules?: VirtualModules,
+): Promise<TransformResult | undefined> {
+  const dependencies = new Set<string>();
+  const sites = collectTemplates(code, id, dependencies, options);
+  if (!sites) return undefined;
+
+  const results = await Promise.all(
+    sites.map((site) =>
+      pool.compile(site.request).then(
+        (result) => checkContract(result, site),
+        (err) => {
+          throw locateCompileError(err, site);
+        },
+      ),
+    ),
+  );
+  return applyTemplates(code, id, compiledTemplates(sites, results, dependencies), modules);
+}
+
+// --- .sol modules ---
+
+function solModuleRequest(code: string, id: string, options?: SoltagPluginOptions): CompileRequest {
+  const config = resolveConfig(ts, options?.root ?? process.cwd(), options);
+  return { source: code, options: config.solc, context: compileContextFor(config, id), warnings: config.warnings };
+}
+
+/**
+ * Module code for a compiled `.sol` file: a named `InlineContract` export
+ * per contract it declares, and its primary contract (see
+ * {@link primaryContract}) as the default export.
+ */
+function applySolModule(code: string, id: string, request: CompileRequest, result: CompileResult): SolModuleResult {
+  const { artifacts, declared, dependencies, sourceName } = result;
+  const primary = primaryContract(id, code, declared);
+
+  const lines = ['import { InlineContract as __InlineContract } from "soltag";'];
+  for (const name of declared) {
+    const contract = JSON.stringify({ [name]: artifacts[name] });
+    lines.push(`export const ${name} = new __InlineContract(${JSON.stringify(name)}, ${contract});`);
+  }
+  if (primary) lines.push(`export default ${primary};`);
+
+  const warnings =
+    request.warnings?.report === false
+      ? []
+      : result.warnings.map((warning) => locateSolModuleDiagnostic(warning, sourceName, id, code));
+  return { code: `${lines.join("\n")}\n`, dependencies, warnings };
+}
+
+/**
+ * Compile an imported `.sol` file (`import Lens from "./Lens.sol"`) into a
+ * module on the calling thread. Used by the standalone webpack loader; the
+ * plugins use {@link transformSolModuleAsync}.
+ */
+export function transformSolModule(code: string, id: string, options?: SoltagPluginOptions): SolModuleResult {
+  const request = solModuleRequest(code, id, options);
+  let result: CompileResult;
+  try {
+    result = compileToArtifacts(request.source, request.options, request.context, request.warnings);
+  } catch (err) {
+    throw err instanceof SolidityCompilationError ? createSolModuleError(err, id, code) : err;
+  }
+  return applySolModule(code, id, request, result);
+}
+
+/**
+ * {@link transformSolModule}, compiled on `pool`.
+ */
+export async function transformSolModuleAsync(
+  code: string,
+  id: string,
+  pool: CompilePool,
+  options?: SoltagPluginOptions,
+): Promise<SolModuleResult> {
+  const request = solModuleRequest(code, id, options);
+  const result = await pool.compile(request).catch((err) => {
+    throw err instanceof SolidityCompilationError ? createSolModuleError(err, id, code) : err;
+  });
+  return applySolModule(code, id, request, result);
+}
+
+/** A located warning in the shape of unplugin's `this.warn` */
+function toMessage(warning: SoltagDiagnostic, id: string) {
+  return {
+    message: formatDiagnostic(warning),
+    id,
+    loc: { file: warning.file, line: warning.line, column: warning.column },
   };
 }
 
 export const unplugin = createUnplugin((options?: SoltagPluginOptions) => {
-  const include = options?.include ?? [".ts", ".tsx", ".mts", ".cts"];
-  const exclude = options?.exclude ?? [/node_modules/];
+  const { include, exclude, workers } = resolveConfig(ts, options?.root ?? process.cwd(), options);
+  // Shared by every module, so identical templates compiling at the same time are compiled once
+  const pool = new CompilePool(workers);
+  // Contracts emitted by `transform`, dropped once no module imports them
+  const modules = new VirtualModules();
+  const resolvedPrefix = `\0${VIRTUAL_MODULE_PREFIX}`;
 
   return {
     name: "soltag",
     enforce: "pre" as const,
 
+    resolveId: {
+      filter: { id: new RegExp(`^${VIRTUAL_MODULE_PREFIX}`) },
+      handler(id: string) {
+        // The \0 prefix keeps other plugins from treating it as a file
+        return `\0${id}`;
+      },
+    },
+
+    load: {
+      filter: { id: [new RegExp(`^${resolvedPrefix}`), SOL_MODULE_FILTER] },
+      async handler(id: string) {
+        if (id.startsWith(resolvedPrefix)) return modules.get(id.slice(resolvedPrefix.length));
+
+        // `import Lens from "./Lens.sol"`
+        let result: SolModuleResult;
+        try {
+          result = await transformSolModuleAsync(fs.readFileSync(id, "utf-8"), id, pool, options);
+        } catch (err) {
+          if (!(err instanceof SoltagCompileError)) throw err;
+          this.error(err);
+          return undefined;
+        }
+        for (const warning of result.warnings) this.warn(toMessage(warning, id));
+        // Files the module imports, so editing them recompiles it
+        for (const dep of result.dependencies) this.addWatchFile(dep);
+        return result.code;
+      },
+    },
+
     transform: {
       filter: {
         id: {
@@ -95,10 +478,33 @@ export const unplugin = createUnplugin((options?: SoltagPluginOptions) => {
           exclude,
         },
       },
-      handler(code: string, id: string) {
-        return transformSolTemplates(code, id, options);
+      async handler(code: string, id: string) {
+        let result: TransformResult | undefined;
+        try {
+          result = await transformSolTemplatesAsync(code, id, pool, options, modules);
+        } catch (err) {
+          if (!(err instanceof SoltagCompileError)) throw err;
+          // Carries `loc` and `frame`, which the bundlers show in their own error output
+          this.error(err);
+          return undefined;
+        }
+        if (!result) {
+          // Its templates may have just been removed
+          modules.release(id);
+          return undefined;
+        }
+        for (const warning of result.warnings) this.warn(toMessage(warning, id));
+        // solFile targets, imported .sol files and the modules interpolated constants come from
+        // aren't (necessarily) part of the module graph — watch them so edits trigger a rebuild /
+        // HMR update of this module
+        for (const dep of result.dependencies) this.addWatchFile(dep);
+        return { code: result.code, map: result.map };
       },
     },
+
+    async buildEnd() {
+      await pool.terminate();
+    },
   };
 });
 
@@ -0,0 +1,57 @@
+/**
+ * The shared virtual modules the bundler plugin emits compiled contracts into
+ * (see `VIRTUAL_MODULE_PREFIX`), by hash. Each importer's latest transform
+ * replaces the hashes it references, and a module is dropped once no importer
+ * references it, so a long dev session doesn't accumulate every contract
+ * ever compiled.
+ */
+export class VirtualModules {
+  private sources = new Map<string, string>();
+  /** Hash → importers that reference it */
+  private importers = new Map<string, Set<string>>();
+  /** Importer → hashes it references */
+  private referenced = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.sources.size;
+  }
+
+  get(hash: string): string | undefined {
+    return this.sources.get(hash);
+  }
+
+  entries(): IterableIterator<[string, string]> {
+    return this.sources.entries();
+  }
+
+  /**
+   * Record the modules `importer` references now (hash → source), releasing
+   * the ones it referenced before and no longer does.
+   */
+  update(importer: string, modules: Map<string, string>): void {
+    for (const [hash, source] of modules) {
+      this.sources.set(hash, source);
+      const importers = this.importers.get(hash) ?? new Set<string>();
+      importers.add(importer);
+      this.importers.set(hash, importers);
+    }
+    for (const hash of this.referenced.get(importer) ?? []) {
+      if (!modules.has(hash)) this.unreference(hash, importer);
+    }
+    if (modules.size > 0) this.referenced.set(importer, new Set(modules.keys()));
+    else this.referenced.delete(importer);
+  }
+
+  /** Release every module `importer` references, e.g. once it has no templates left */
+  release(importer: string): void {
+    this.update(importer, new Map());
+  }
+
+  private unreference(hash: string, importer: string): void {
+    const importers = this.importers.get(hash);
+    importers?.delete(importer);
+    if (importers && importers.size > 0) return;
+    this.importers.delete(hash);
+    this.sources.delete(hash);
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Worker-thread entry for {@link CompilePool}: compiles one request at a time.
+ */
+
+import { parentPort } from "worker_threads";
+
+import { compileToArtifacts, SolidityCompilationError } from "../solc.js";
+
+import type { CompileRequest, WorkerMessage } from "./pool.js";
+
+parentPort!.on("message", ({ id, request }: { id: number; request: CompileRequest }) => {
+  let message: WorkerMessage;
+  try {
+    message = {
+      id,
+      result: compileToArtifacts(request.source, request.options, request.context, request.warnings),
+    };
+  } catch (err) {
+    message = { id, error: (err as Error).message };
+    // Errors lose their class crossing threads; send what the pool needs to rebuild it
+    if (err instanceof SolidityCompilationError) {
+      const { diagnostics, sourceName, compilerVersion } = err;
+      message.compilation = { diagnostics, sourceName, compilerVersion };
+    }
+  }
+  parentPort!.postMessage(message);
+});
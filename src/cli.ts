@@ -3,9 +3,23 @@ import * as path from "path";
 
 import ts from "typescript";
 
-import { extractTemplateSource, isSolTag, SolFileError } from "./ast-utils.js";
-import { type ContractTypeEntry, generateDeclarationContent, SOLTAG_DIR, SOLTAG_TYPES_FILE } from "./codegen.js";
-import { compileCached, getConstructorInputs, getContractAbi, type SolcStandardOutput } from "./solc.js";
+import { extractTemplateSource, isSolTag, SolFileError, UnresolvedInterpolationError } from "./ast-utils.js";
+import { CACHE_DIR_NAME, type ContractTypeEntry, generateDeclarationContent, SOLTAG_DIR } from "./codegen.js";
+import { compileContextFor, resolveConfig } from "./config.js";
+import { cleanDiskCache } from "./disk-cache.js";
+import { createProgramModuleHost } from "./module-host.js";
+import { compileSolModuleTypes, findSolImports, writeSolModuleDeclaration } from "./sol-modules.js";
+import {
+  applyWarningPolicy,
+  compileCached,
+  getConstructorInputs,
+  getContractAbi,
+  mergeSolcSettings,
+  type SolcInputOptions,
+  type SolcStandardOutput,
+  warningPolicyFor,
+} from "./solc.js";
+import { missingContractMessage } from "./suggest.js";
 
 // --- Parse args ---
 
@@ -13,6 +27,7 @@ const args = process.argv.slice(2);
 
 if (args.includes("--help") || args.includes("-h")) {
   console.log("Usage: soltag [-p <tsconfig.json>]");
+  console.log("       soltag cache clean [-p <project dir>]");
   console.log("  -p, --project  Path to tsconfig.json (default: tsconfig.json in cwd)");
   process.exit(0);
 }
@@ -24,6 +39,35 @@ for (let i = 0; i < args.length; i++) {
   }
 }
 
+// --- soltag cache clean ---
+
+if (args[0] === "cache") {
+  if (args[1] !== "clean") {
+    console.error(`error: unknown cache command "${args[1] ?? ""}" (expected "clean")`);
+    process.exit(1);
+  }
+
+  let dir = tsconfigArg ? path.resolve(tsconfigArg) : process.cwd();
+  if (fs.existsSync(dir) && !fs.statSync(dir).isDirectory()) dir = path.dirname(dir);
+
+  let cacheDir: string;
+  try {
+    const { cache } = resolveConfig(ts, dir);
+    // Clean the default location even when the cache is disabled, so stale entries don't linger
+    cacheDir = cache ? cache.dir : path.resolve(dir, SOLTAG_DIR, CACHE_DIR_NAME);
+  } catch (err) {
+    console.error(`error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  const { entries, bytes } = cleanDiskCache(cacheDir);
+  const label = path.relative(process.cwd(), cacheDir) || ".";
+  console.log(
+    `Removed ${entries} cache entr${entries === 1 ? "y" : "ies"} (${(bytes / 1024).toFixed(1)} KiB) from ${label}`,
+  );
+  process.exit(0);
+}
+
 // --- Load tsconfig ---
 
 const searchPath = tsconfigArg ? path.resolve(tsconfigArg) : process.cwd();
@@ -41,10 +85,38 @@ if (configFile.error) {
 
 const parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(configPath));
 const program = ts.createProgram(parsed.fileNames, parsed.options);
+const modules = createProgramModuleHost(ts, program);
+
+// --- Load soltag config ---
+
+const projectDir = path.dirname(configPath);
+
+let config: ReturnType<typeof resolveConfig>;
+try {
+  config = resolveConfig(ts, projectDir);
+} catch (err) {
+  console.error(`error: ${(err as Error).message}`);
+  process.exit(1);
+}
 
 // --- Collect sol() entries from source files ---
 
-const rawEntries: { contractName: string; source: string }[] = [];
+const rawEntries: {
+  contractName: string;
+  source: string;
+  fileName: string;
+  /** `file:line:column` of the `sol("Name")` call, for errors */
+  location: string;
+  settings?: SolcInputOptions;
+}[] = [];
+
+/** `.sol` files imported as modules, typed by a `.sol.d.ts` next to each */
+const solModuleFiles = new Set<string>();
+
+function locate(sourceFile: ts.SourceFile, node: ts.Node): string {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return `${sourceFile.fileName}:${line + 1}:${character + 1}`;
+}
 
 for (const sourceFile of program.getSourceFiles()) {
   if (sourceFile.isDeclarationFile) continue;
@@ -52,16 +124,32 @@ for (const sourceFile of program.getSourceFiles()) {
 
   function visit(node: ts.Node) {
     if (ts.isTaggedTemplateExpression(node)) {
-      const solTag = isSolTag(ts, node.tag);
-      if (solTag !== false) {
+      const solTag = isSolTag(ts, node.tag, sourceFile);
+      if (solTag !== false && solTag.unresolvedSettings) {
+        // The build fails on these, so CI should too
+        console.error(
+          `error: ${locate(sourceFile, node)} — sol("${solTag.contractName}") settings must be a statically-resolvable object literal`,
+        );
+        process.exitCode = 1;
+      } else if (solTag !== false) {
         try {
-          const source = extractTemplateSource(ts, node.template, sourceFile);
+          const source = extractTemplateSource(ts, node.template, sourceFile, { modules, strict: config.strict });
           if (source != null) {
-            rawEntries.push({ contractName: solTag.contractName, source });
+            rawEntries.push({
+              contractName: solTag.contractName,
+              source,
+              fileName: sourceFile.fileName,
+              location: locate(sourceFile, node),
+              settings: solTag.settings,
+            });
           }
         } catch (err) {
           if (err instanceof SolFileError) {
             console.warn(`warning: ${err.message}`);
+          } else if (err instanceof UnresolvedInterpolationError) {
+            // Still generate types for the rest, but fail like the build would
+            console.error(`error: ${locate(sourceFile, err.node)} — ${err.message}`);
+            process.exitCode = 1;
           } else {
             throw err;
           }
@@ -71,6 +159,8 @@ for (const sourceFile of program.getSourceFiles()) {
     ts.forEachChild(node, visit);
   }
   visit(sourceFile);
+
+  for (const file of findSolImports(ts, sourceFile)) solModuleFiles.add(file);
 }
 
 // --- Compile and generate types ---
@@ -80,9 +170,33 @@ const entries: ContractTypeEntry[] = [];
 for (const raw of rawEntries) {
   let output: SolcStandardOutput;
   try {
-    output = compileCached(raw.source);
-  } catch {
-    console.warn(`warning: failed to compile contract "${raw.contractName}"`);
+    ({ output } = compileCached(
+      raw.source,
+      mergeSolcSettings(config.solc, raw.settings),
+      compileContextFor(config, raw.fileName),
+    ));
+  } catch (err) {
+    console.warn(`warning: failed to compile contract "${raw.contractName}": ${(err as Error).message}`);
+    continue;
+  }
+
+  // The same policy the bundler applies, so `asErrors` fails CI here too
+  const diagnostics = applyWarningPolicy(output.errors ?? [], warningPolicyFor(raw.source, config.warnings));
+  for (const warning of diagnostics.filter((e) => e.severity === "warning")) {
+    console.warn(`warning: ${raw.location} — ${warning.formattedMessage.trim()}`);
+  }
+  const errors = diagnostics.filter((e) => e.severity === "error");
+  if (errors.length > 0) {
+    for (const error of errors) console.error(`error: ${raw.location} — ${error.formattedMessage.trim()}`);
+    process.exitCode = 1;
+    continue;
+  }
+
+  const contractNames = Object.values(output.contracts ?? {}).flatMap((contracts) => Object.keys(contracts));
+  if (!contractNames.includes(raw.contractName)) {
+    // The build fails on this too — fail CI the same way instead of typing the contract as empty
+    console.error(`error: ${raw.location} — ${missingContractMessage(raw.contractName, contractNames)}`);
+    process.exitCode = 1;
     continue;
   }
 
@@ -91,6 +205,16 @@ for (const raw of rawEntries) {
   entries.push({ contractName: raw.contractName, constructorInputs, abi });
 }
 
+for (const file of solModuleFiles) {
+  const types = compileSolModuleTypes(file, config);
+  if (!types) {
+    console.warn(`warning: failed to compile ${path.relative(projectDir, file)}`);
+    continue;
+  }
+  entries.push(...types.entries);
+  if (writeSolModuleDeclaration(types)) console.log(`Wrote ${path.relative(projectDir, file)}.d.ts`);
+}
+
 const { content, duplicates } = generateDeclarationContent(entries);
 
 for (const name of duplicates) {
@@ -99,15 +223,15 @@ for (const name of duplicates) {
   );
 }
 
-// --- Write .soltag/types.d.ts ---
+// --- Write .soltag/types.d.ts (or the configured typesFile) ---
 
-const projectDir = path.dirname(configPath);
-const typesFile = path.join(projectDir, SOLTAG_DIR, SOLTAG_TYPES_FILE);
+const typesFile = config.typesFile;
+const typesFileLabel = path.relative(projectDir, typesFile);
 
 if (content === "") {
   if (fs.existsSync(typesFile)) {
     fs.unlinkSync(typesFile);
-    console.log("Removed .soltag/types.d.ts (no contracts found)");
+    console.log(`Removed ${typesFileLabel} (no contracts found)`);
   } else {
     console.log("No sol() contracts found");
   }
@@ -123,9 +247,9 @@ if (content === "") {
   }
 
   if (existing === content) {
-    console.log(".soltag/types.d.ts is up to date");
+    console.log(`${typesFileLabel} is up to date`);
   } else {
     fs.writeFileSync(typesFile, content, "utf-8");
-    console.log(`Wrote .soltag/types.d.ts (${entries.length} contract${entries.length !== 1 ? "s" : ""})`);
+    console.log(`Wrote ${typesFileLabel} (${entries.length} contract${entries.length !== 1 ? "s" : ""})`);
   }
 }
@@ -2,6 +2,7 @@ import type { SolcAbiParam } from "./solc.js";
 
 export const SOLTAG_DIR = ".soltag";
 export const SOLTAG_TYPES_FILE = "types.d.ts";
+export const CACHE_DIR_NAME = "cache";
 
 /**
  * Map a Solidity type to a TypeScript type string for display.
@@ -136,3 +137,16 @@ ${bytecodeMapEntries.join("\n")}
 
   return { content, duplicates };
 }
+
+/**
+ * Generate the `.sol.d.ts` for an imported `.sol` file: a typed
+ * `InlineContract` per declared contract, and `primary` as the default export.
+ */
+export function generateSolModuleDeclaration(fileName: string, contractNames: string[], primary?: string): string {
+  const exports = contractNames.map((name) => `export declare const ${name}: InlineContract<${JSON.stringify(name)}>;`);
+  return `// Generated by soltag from ${fileName} — do not edit
+import type { InlineContract } from "soltag";
+
+${exports.join("\n")}
+${primary ? `export default ${primary};\n` : ""}`;
+}
@@ -0,0 +1,156 @@
+/**
+ * Bounded in-memory compilation cache. In the editor every keystroke inside a
+ * template is a new source, so entries are evicted least-recently-used once
+ * the cache exceeds its entry or size limit, and each template ("owner")
+ * releases the entry it compiled before as soon as it compiles a new one.
+ */
+
+export interface CompileCacheLimits {
+  /** Defaults to 500 */
+  maxEntries?: number;
+  /** Approximate total size of cached solc output, in bytes. Defaults to 64 MiB */
+  maxBytes?: number;
+}
+
+export interface CompileCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  /** Entries dropped for exceeding the limits */
+  evictions: number;
+  /** Entries dropped because every template that used them changed */
+  invalidations: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+interface Slot<T> {
+  value: T;
+  bytes: number;
+  /** Templates whose current source compiles to this entry */
+  owners: Set<string>;
+}
+
+/**
+ * Owner id for the template named `contractName` in `fileName`. `occurrence`
+ * tells apart templates with the same name in one file: the first is 0.
+ */
+export function templateOwner(fileName: string, contractName: string, occurrence = 0): string {
+  return `${fileName}#${contractName}#${occurrence}`;
+}
+
+/**
+ * Owner ids for the templates of `fileName`, given their contract names in
+ * source order (see {@link templateOwner}).
+ */
+export function templateOwners(fileName: string, contractNames: string[]): string[] {
+  const seen = new Map<string, number>();
+  return contractNames.map((name) => {
+    const occurrence = seen.get(name) ?? 0;
+    seen.set(name, occurrence + 1);
+    return templateOwner(fileName, name, occurrence);
+  });
+}
+
+export class CompileCache<T> {
+  private slots = new Map<string, Slot<T>>();
+  private owned = new Map<string, string>();
+  private maxEntries = DEFAULT_MAX_ENTRIES;
+  private maxBytes = DEFAULT_MAX_BYTES;
+  private counters = { bytes: 0, hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+  configure(limits: CompileCacheLimits = {}): void {
+    this.maxEntries = limits.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = limits.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.evict();
+  }
+
+  /**
+   * Look up `key`, counting a hit or miss. Entries failing `isValid` are
+   * dropped and count as a miss.
+   */
+  get(key: string, owner?: string, isValid?: (value: T) => boolean): T | undefined {
+    const slot = this.slots.get(key);
+    if (!slot || (isValid && !isValid(slot.value))) {
+      if (slot) this.remove(key);
+      this.counters.misses++;
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.slots.delete(key);
+    this.slots.set(key, slot);
+    this.counters.hits++;
+    if (owner) this.claim(owner, key);
+    return slot.value;
+  }
+
+  set(key: string, value: T, bytes: number, owner?: string): void {
+    this.remove(key);
+    this.slots.set(key, { value, bytes, owners: new Set() });
+    this.counters.bytes += bytes;
+    if (owner) this.claim(owner, key);
+    this.evict();
+  }
+
+  /**
+   * Release every template in `fileName` except those in `keep`, dropping
+   * entries no other template still uses.
+   */
+  releaseFile(fileName: string, keep: Iterable<string> = []): void {
+    const kept = new Set(keep);
+    const prefix = `${fileName}#`;
+    for (const owner of [...this.owned.keys()]) {
+      if (owner.startsWith(prefix) && !kept.has(owner)) this.release(owner);
+    }
+  }
+
+  clear(): void {
+    this.slots.clear();
+    this.owned.clear();
+    this.counters.bytes = 0;
+  }
+
+  stats(): CompileCacheStats {
+    return { entries: this.slots.size, ...this.counters };
+  }
+
+  private claim(owner: string, key: string): void {
+    const previous = this.owned.get(owner);
+    if (previous === key) return;
+    if (previous !== undefined) this.release(owner);
+    this.owned.set(owner, key);
+    this.slots.get(key)?.owners.add(owner);
+  }
+
+  private release(owner: string): void {
+    const key = this.owned.get(owner);
+    this.owned.delete(owner);
+    if (key === undefined) return;
+    const slot = this.slots.get(key);
+    if (!slot) return;
+    slot.owners.delete(owner);
+    if (slot.owners.size === 0) {
+      this.remove(key);
+      this.counters.invalidations++;
+    }
+  }
+
+  private remove(key: string): void {
+    const slot = this.slots.get(key);
+    if (!slot) return;
+    this.slots.delete(key);
+    this.counters.bytes -= slot.bytes;
+    for (const owner of slot.owners) this.owned.delete(owner);
+  }
+
+  private evict(): void {
+    // Map iteration order is insertion order, so the first key is the least recently used
+    for (const key of this.slots.keys()) {
+      if (this.slots.size <= this.maxEntries && this.counters.bytes <= this.maxBytes) return;
+      this.remove(key);
+      this.counters.evictions++;
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Local solc compiler set. soltag never downloads compilers: the cache
+ * directory is filled out of band with soljson builds (the
+ * `soljson-v<version>+commit.<hash>.js` files published at
+ * binaries.soliditylang.org), and each template compiles with the newest
+ * one its `pragma solidity` allows. The installed `solc` package is always
+ * part of the set.
+ */
+
+import * as fs from "fs";
+import { createRequire } from "module";
+import * as os from "os";
+import * as path from "path";
+
+import solc from "solc";
+
+export type Solc = typeof solc;
+
+export const COMPILERS_DIR_ENV = "SOLTAG_COMPILERS_DIR";
+export const DEFAULT_COMPILERS_DIR = path.join(os.homedir(), ".soltag", "compilers");
+
+export interface AvailableCompiler {
+  /** e.g. `"0.8.28"` */
+  version: string;
+  /** e.g. `"0.8.28+commit.7893614a"` — the cached file's build, or the installed package's */
+  longVersion: string;
+  /** soljson file in the cache directory; undefined for the installed `solc` package */
+  path?: string;
+}
+
+const SOLJSON_RE = /^soljson-v(\d+\.\d+\.\d+)(\+commit\.[0-9a-f]+)?\.js$/;
+
+/**
+ * The cache directory to use: an explicit setting, then `SOLTAG_COMPILERS_DIR`,
+ * then `~/.soltag/compilers`.
+ */
+export function resolveCompilersDir(configured?: string): string {
+  return path.resolve(configured ?? process.env[COMPILERS_DIR_ENV] ?? DEFAULT_COMPILERS_DIR);
+}
+
+function installedCompiler(): AvailableCompiler {
+  const longVersion = (solc.version() as string).replace(/\.Emscripten.*$/, "");
+  return { version: longVersion.split("+")[0], longVersion };
+}
+
+const listings = new Map<string, { mtimeMs: number; compilers: AvailableCompiler[] }>();
+
+/**
+ * Every compiler in `dir` plus the installed `solc` package, newest first.
+ * A missing directory just means only the installed package is available.
+ */
+export function listCompilers(dir: string): AvailableCompiler[] {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(dir).mtimeMs;
+  } catch {
+    return [installedCompiler()];
+  }
+  const cached = listings.get(dir);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.compilers;
+
+  const installed = installedCompiler();
+  const compilers = [installed];
+  for (const entry of fs.readdirSync(dir)) {
+    const match = SOLJSON_RE.exec(entry);
+    // The installed package already covers its own version without another load
+    if (!match || match[1] === installed.version) continue;
+    compilers.push({ version: match[1], longVersion: match[1] + (match[2] ?? ""), path: path.join(dir, entry) });
+  }
+  compilers.sort((a, b) => compareVersions(b.version, a.version));
+
+  listings.set(dir, { mtimeMs, compilers });
+  return compilers;
+}
+
+// --- pragma ranges ---
+
+type Version = [number, number, number];
+
+function parseVersion(version: string): Version {
+  const [major = 0, minor = 0, patch = 0] = version.split(".").map(Number);
+  return [major, minor, patch];
+}
+
+function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  for (let i = 0; i < 3; i++) {
+    if (va[i] !== vb[i]) return va[i] - vb[i];
+  }
+  return 0;
+}
+
+const COMPARATOR_RE = /^(\^|~|>=|<=|>|<|=)?v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/;
+
+/**
+ * Lower (inclusive) and upper (exclusive) bounds of one comparator, e.g.
+ * `^0.8.19` → [0.8.19, 0.9.0).
+ */
+function comparatorBounds(comparator: string): [Version, Version] | undefined {
+  const match = COMPARATOR_RE.exec(comparator);
+  if (!match) return undefined;
+  const [, op = "=", majorText, minorText, patchText] = match;
+  const isWild = (part: string | undefined) => part === undefined || part === "x" || part === "*";
+  const major = Number(majorText);
+  const minor = isWild(minorText) ? undefined : Number(minorText);
+  const patch = isWild(patchText) ? undefined : Number(patchText);
+
+  const low: Version = [major, minor ?? 0, patch ?? 0];
+  // Exclusive upper bound of the version (or partial version) as written
+  const next: Version =
+    minor === undefined ? [major + 1, 0, 0] : patch === undefined ? [major, minor + 1, 0] : [major, minor, patch + 1];
+  const none: Version = [0, 0, 0];
+  const any: Version = [Number.MAX_SAFE_INTEGER, 0, 0];
+
+  switch (op) {
+    case "=":
+      return [low, next];
+    case ">=":
+      return [low, any];
+    case ">":
+      return [next, any];
+    case "<":
+      return [none, low];
+    case "<=":
+      return [none, next];
+    case "~":
+      return [low, minor === undefined ? [major + 1, 0, 0] : [major, minor + 1, 0]];
+    default: {
+      // ^ locks the left-most non-zero part
+      if (major > 0 || minor === undefined) return [low, [major + 1, 0, 0]];
+      if (minor > 0 || patch === undefined) return [low, [0, minor + 1, 0]];
+      return [low, [0, 0, patch + 1]];
+    }
+  }
+}
+
+function compareTuples(a: Version, b: Version): number {
+  return compareVersions(a.join("."), b.join("."));
+}
+
+/**
+ * True if `version` satisfies a `pragma solidity` range. Supports the
+ * npm-semver subset Solidity accepts: `^`, `~`, comparison operators,
+ * partial and `x` versions, hyphen ranges and `||`.
+ *
+ * Throws on a range it can't parse.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const v = parseVersion(version);
+  return range.split("||").some((alternative) => {
+    const normalized = alternative.trim().replace(/(>=|<=|>|<|=|\^|~)\s+/g, "$1");
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(normalized);
+    const comparators = hyphen ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`] : normalized.split(/\s+/).filter(Boolean);
+    if (comparators.length === 0) return true;
+    return comparators.every((comparator) => {
+      const bounds = comparatorBounds(comparator);
+      if (!bounds) throw new Error(`soltag: unsupported version range "${range.trim()}"`);
+      return compareTuples(v, bounds[0]) >= 0 && compareTuples(v, bounds[1]) < 0;
+    });
+  });
+}
+
+/**
+ * The range of the first `pragma solidity` directive outside comments.
+ */
+export function parsePragma(source: string): string | undefined {
+  const code = source.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, "");
+  return /\bpragma\s+solidity\s+([^;]+);/.exec(code)?.[1].trim();
+}
+
+// --- selection ---
+
+/**
+ * Pick the compiler for a template: the exact `version` if one is pinned,
+ * otherwise the newest available compiler that satisfies the template's
+ * pragma.
+ *
+ * Throws, listing what is available, when nothing matches.
+ */
+export function selectCompiler(source: string, options: { version?: string; dir?: string } = {}): AvailableCompiler {
+  const dir = resolveCompilersDir(options.dir);
+  const compilers = listCompilers(dir);
+  const available = compilers.map((c) => c.version).join(", ");
+
+  if (options.version) {
+    const wanted = options.version.replace(/^v/, "").split("+")[0];
+    const pinned = compilers.find((c) => c.version === wanted);
+    if (!pinned) {
+      throw new Error(`soltag: solc ${wanted} is pinned but is not in ${dir} (available: ${available})`);
+    }
+    return pinned;
+  }
+
+  const range = parsePragma(source);
+  const selected = range === undefined ? compilers[0] : compilers.find((c) => satisfies(c.version, range));
+  if (!selected) {
+    throw new Error(
+      `soltag: no solc satisfies "pragma solidity ${range}" (available: ${available}). ` +
+        `Add a soljson-v<version>+commit.<hash>.js build to ${dir}`,
+    );
+  }
+  return selected;
+}
+
+const loaded = new Map<string, Solc>();
+
+/**
+ * The solc-js wrapper for a selected compiler. Cached soljson builds are
+ * loaded once per process.
+ */
+export function loadCompiler(compiler: AvailableCompiler): Solc {
+  if (!compiler.path) return solc;
+  let wrapper = loaded.get(compiler.path);
+  if (!wrapper) {
+    wrapper = solc.setupMethods(createRequire(compiler.path)(compiler.path)) as Solc;
+    loaded.set(compiler.path, wrapper);
+  }
+  return wrapper;
+}
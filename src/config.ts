@@ -0,0 +1,270 @@
+/**
+ * Project-wide soltag configuration, shared by the bundler plugin, the CLI
+ * and the TypeScript plugin so all three compile with the same settings.
+ *
+ * Layers, lowest to highest precedence:
+ * 1. the active Foundry profile (`foundry.toml` / `remappings.txt`),
+ * 2. `soltag.config.{ts,mts,cts,js,mjs,cjs,json}`,
+ * 3. options passed to the bundler plugin or the tsconfig plugin entry.
+ */
+
+import * as fs from "fs";
+import { createRequire } from "module";
+import * as path from "path";
+
+import picomatch from "picomatch";
+import type typescript from "typescript";
+
+import { CACHE_DIR_NAME, SOLTAG_DIR, SOLTAG_TYPES_FILE } from "./codegen.js";
+import type { CompileCacheLimits } from "./compile-cache.js";
+import type { DiskCacheOptions } from "./disk-cache.js";
+import { loadFoundryConfig } from "./foundry.js";
+import {
+  type CompileContext,
+  mergeSolcSettings,
+  type SolcBackend,
+  type SolcInputOptions,
+  type WarningPolicy,
+} from "./solc.js";
+
+type TS = typeof typescript;
+
+export const CONFIG_FILE_NAMES = [
+  "soltag.config.ts",
+  "soltag.config.mts",
+  "soltag.config.cts",
+  "soltag.config.js",
+  "soltag.config.mjs",
+  "soltag.config.cjs",
+  "soltag.config.json",
+];
+
+export interface SoltagConfig {
+  /** File extensions the bundler plugin transforms. Defaults to ['.ts', '.tsx', '.mts', '.cts'] */
+  include?: string[];
+  /**
+   * Files the bundler plugins and the Node register hooks skip: RegExps are
+   * tested against the absolute path, strings are globs relative to the
+   * project root (globs starting with `**` match anywhere). Defaults to [/node_modules/]
+   */
+  exclude?: (string | RegExp)[];
+  /** Exact solc version every template must compile with, e.g. `"0.8.28"`. Defaults to each template's pragma. */
+  version?: string;
+  /** Local compiler cache directory, relative to the project root. Defaults to `$SOLTAG_COMPILERS_DIR` or `~/.soltag/compilers` */
+  compilers?: string;
+  /** `"solcjs"` (default) compiles in-process; `"native"` runs a solc binary over standard JSON */
+  backend?: SolcBackend;
+  /** Native solc binary for `backend: "native"`, relative to the project root or a command on `PATH`. Defaults to `solc` */
+  solcPath?: string;
+  /** Persistent compilation cache, or `false` to disable it. Defaults to `.soltag/cache` under the project root, capped at 256 MiB */
+  cache?: false | { dir?: string; maxSize?: number };
+  /** Compiler worker threads for the bundler plugin; `0` compiles on the main thread. Defaults to one per core, minus one */
+  workers?: number;
+  /** Limits of the TypeScript plugin's in-memory compilation cache */
+  memoryCache?: CompileCacheLimits;
+  /** Solc compiler settings */
+  solc?: SolcInputOptions;
+  /** Generated declaration file, relative to the project root. Defaults to `.soltag/types.d.ts` */
+  typesFile?: string;
+  /** Which solc warnings to drop, and whether the rest fail the build */
+  warnings?: WarningPolicy;
+  /**
+   * Fail the build when a template's interpolations can't be resolved at
+   * build time, instead of leaving the template uncompiled. Defaults to true
+   */
+  strict?: boolean;
+}
+
+/**
+ * Fully-layered configuration for one project.
+ */
+export interface ResolvedConfig {
+  /** Root that remapping targets and import source unit names resolve against */
+  root: string;
+  include: string[];
+  /** `exclude`, with relative globs made absolute; match files with {@link createExcludeFilter} */
+  exclude: (string | RegExp)[];
+  version?: string;
+  /** Absolute path of the configured compiler cache directory, if any */
+  compilers?: string;
+  backend: SolcBackend;
+  /** Native solc binary: an absolute path, or a command name looked up on `PATH` */
+  solcPath?: string;
+  cache: DiskCacheOptions | false;
+  memoryCache: CompileCacheLimits;
+  workers?: number;
+  solc: SolcInputOptions;
+  /** Absolute path of the generated declaration file */
+  typesFile: string;
+  warnings: WarningPolicy;
+  strict: boolean;
+  /** Absolute path of the config file that was loaded, if any */
+  configFile?: string;
+}
+
+/**
+ * Walk up from `startDir` to the nearest `soltag.config.*` file.
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+const fileCache = new Map<string, { mtimeMs: number; config: SoltagConfig }>();
+
+/**
+ * Evaluate a config file synchronously. TypeScript and ESM sources are
+ * transpiled to CommonJS with the project's `typescript` so the same loader
+ * works inside tsserver, where nothing async is allowed.
+ *
+ * Throws with the config file path on syntax or evaluation errors.
+ */
+export function loadConfigFile(ts: TS, configFile: string): SoltagConfig {
+  const { mtimeMs } = fs.statSync(configFile);
+  const cached = fileCache.get(configFile);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.config;
+
+  const text = fs.readFileSync(configFile, "utf-8");
+  let config: SoltagConfig;
+  try {
+    if (configFile.endsWith(".json")) {
+      config = JSON.parse(text) as SoltagConfig;
+    } else {
+      const { outputText } = ts.transpileModule(text, {
+        fileName: configFile,
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2020,
+          esModuleInterop: true,
+        },
+      });
+      const module = { exports: {} as Record<string, unknown> };
+      const evaluate = new Function("module", "exports", "require", "__filename", "__dirname", outputText);
+      evaluate(module, module.exports, createRequire(configFile), configFile, path.dirname(configFile));
+      config = (module.exports.default ?? module.exports) as SoltagConfig;
+    }
+  } catch (err) {
+    throw new Error(`soltag: failed to load ${configFile}: ${(err as Error).message}`);
+  }
+
+  fileCache.set(configFile, { mtimeMs, config });
+  return config;
+}
+
+/**
+ * Resolve the effective configuration for the project at `projectDir`.
+ * Foundry settings and the config file are looked up from `projectDir`
+ * upwards; `overrides` win over both.
+ *
+ * Pass `{ files: false }` to skip both lookups (e.g. after a load failure).
+ */
+export function resolveConfig(
+  ts: TS,
+  projectDir: string,
+  overrides?: SoltagConfig,
+  { files = true }: { files?: boolean } = {},
+): ResolvedConfig {
+  const foundry = files ? loadFoundryConfig(projectDir) : undefined;
+  const configFile = files ? findConfigFile(projectDir) : undefined;
+  const fromFile = configFile ? loadConfigFile(ts, configFile) : {};
+
+  const layers = [fromFile, overrides ?? {}];
+  const pick = <K extends keyof SoltagConfig>(key: K): SoltagConfig[K] =>
+    layers.reduce<SoltagConfig[K]>((acc, layer) => layer[key] ?? acc, undefined);
+
+  const typesFile = pick("typesFile");
+  const compilers = pick("compilers");
+  const solcPath = pick("solcPath");
+  const cache = pick("cache");
+  return {
+    root: foundry?.root ?? projectDir,
+    include: pick("include") ?? [".ts", ".tsx", ".mts", ".cts"],
+    exclude: (pick("exclude") ?? [/node_modules/]).map((pattern) =>
+      typeof pattern === "string" ? excludeGlob(pattern, projectDir) : pattern,
+    ),
+    version: pick("version") ?? foundry?.version,
+    compilers: compilers === undefined ? undefined : path.resolve(projectDir, compilers),
+    backend: pick("backend") ?? "solcjs",
+    solcPath: solcPath?.includes("/") ? path.resolve(projectDir, solcPath) : solcPath,
+    cache:
+      cache === false
+        ? false
+        : {
+            dir: path.resolve(projectDir, cache?.dir ?? path.join(SOLTAG_DIR, CACHE_DIR_NAME)),
+            maxSize: cache?.maxSize,
+          },
+    memoryCache: { ...fromFile.memoryCache, ...overrides?.memoryCache },
+    workers: pick("workers"),
+    solc: layers.reduce((acc, layer) => mergeSolcSettings(acc, layer.solc), foundry?.solc ?? {}),
+    typesFile: path.resolve(projectDir, typesFile ?? path.join(SOLTAG_DIR, SOLTAG_TYPES_FILE)),
+    warnings: { ...fromFile.warnings, ...overrides?.warnings },
+    strict: pick("strict") ?? true,
+    configFile,
+  };
+}
+
+/** Posix separators, which globs and unplugin's module ids use */
+function toPosix(file: string): string {
+  return file.replace(/\\/g, "/");
+}
+
+/**
+ * A string `exclude` pattern as an absolute glob, the way unplugin's `id`
+ * filters read them: relative globs resolve against `projectDir`, `**` globs
+ * stay as they are.
+ */
+function excludeGlob(pattern: string, projectDir: string): string {
+  return toPosix(pattern.startsWith("**") || path.isAbsolute(pattern) ? pattern : path.resolve(projectDir, pattern));
+}
+
+/**
+ * Whether a resolved `exclude` list skips a file, matching the same way the
+ * unplugin filter does, so every integration skips the same files.
+ */
+export function createExcludeFilter(exclude: ResolvedConfig["exclude"]): (file: string) => boolean {
+  const globs = exclude.filter((pattern) => typeof pattern === "string");
+  const matchesGlob = globs.length > 0 ? picomatch(globs, { dot: true }) : () => false;
+  const regexes = exclude.filter((pattern) => pattern instanceof RegExp);
+  return (file) => {
+    const id = toPosix(file);
+    return (
+      matchesGlob(id) ||
+      regexes.some((regex) => {
+        // Global RegExps keep their position between tests
+        regex.lastIndex = 0;
+        return regex.test(id);
+      })
+    );
+  };
+}
+
+/**
+ * `config` as JSON for cache keys, with RegExp `exclude` patterns written as
+ * their source instead of `{}`.
+ */
+export function configCacheKey(config: ResolvedConfig): string {
+  return JSON.stringify(config, (_, value) => (value instanceof RegExp ? String(value) : value));
+}
+
+/**
+ * The {@link CompileContext} for templates in `fileName`.
+ */
+export function compileContextFor(config: ResolvedConfig, fileName: string): CompileContext {
+  return {
+    basePath: path.dirname(fileName),
+    root: config.root,
+    version: config.version,
+    compilers: config.compilers,
+    backend: config.backend,
+    solcPath: config.solcPath,
+    cache: config.cache || undefined,
+  };
+}
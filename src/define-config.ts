@@ -0,0 +1,22 @@
+/**
+ * Entry point for `soltag/config`. Kept free of runtime imports so config
+ * files load without pulling in solc.
+ */
+
+import type { SoltagConfig } from "./config.js";
+
+export type { SoltagConfig };
+
+export type { SolcInputOptions, WarningPolicy } from "./solc.js";
+
+/**
+ * Identity helper for typed `soltag.config.ts` files:
+ *
+ * ```ts
+ * import { defineConfig } from "soltag/config";
+ * export default defineConfig({ solc: { viaIR: true } });
+ * ```
+ */
+export function defineConfig(config: SoltagConfig): SoltagConfig {
+  return config;
+}
@@ -0,0 +1,143 @@
+/**
+ * Persistent, content-addressed compilation cache. Entries are keyed by a
+ * hash of everything solc sees (source, full settings, compiler version, and
+ * the template's location when it has imports), so the bundler, the CLI and
+ * the TypeScript plugin can all share one directory across processes.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+import type { SolcCompilation } from "./solc.js";
+
+export const DEFAULT_CACHE_MAX_SIZE = 256 * 1024 * 1024;
+
+/** Bump when the entry layout changes so old entries are ignored */
+const CACHE_FORMAT = 1;
+
+export interface DiskCacheOptions {
+  /** Absolute path of the cache directory */
+  dir: string;
+  /** Total size in bytes before the least recently used entries are evicted. Defaults to 256 MiB */
+  maxSize?: number;
+}
+
+interface DiskCacheEntry {
+  format: number;
+  compilation: SolcCompilation;
+  /** Absolute path → content hash of each imported file at compile time */
+  files: Record<string, string>;
+}
+
+export function hashContents(contents: string): string {
+  return createHash("sha256").update(contents).digest("hex");
+}
+
+function entryPath(dir: string, key: string): string {
+  return path.join(dir, `${hashContents(key)}.json`);
+}
+
+/**
+ * Look up `key`. Returns undefined on a miss or an unreadable entry; the
+ * caller still has to check the imported files' hashes for freshness.
+ */
+export function readDiskCache(
+  options: DiskCacheOptions,
+  key: string,
+): { compilation: SolcCompilation; files: Map<string, string> } | undefined {
+  const file = entryPath(options.dir, key);
+  let entry: DiskCacheEntry;
+  try {
+    entry = JSON.parse(fs.readFileSync(file, "utf-8")) as DiskCacheEntry;
+  } catch {
+    return undefined;
+  }
+  if (entry.format !== CACHE_FORMAT) return undefined;
+
+  try {
+    // mtime doubles as the last-used time for eviction
+    const now = new Date();
+    fs.utimesSync(file, now, now);
+  } catch {
+    // Another process may have evicted it in the meantime
+  }
+  return { compilation: entry.compilation, files: new Map(Object.entries(entry.files)) };
+}
+
+/**
+ * Store `compilation` under `key`. Writes go to a temporary file that is
+ * renamed into place, so concurrent processes never see a partial entry.
+ * Failures (read-only checkout, full disk) are ignored — the cache is only
+ * an optimization.
+ */
+export function writeDiskCache(
+  options: DiskCacheOptions,
+  key: string,
+  compilation: SolcCompilation,
+  files: Map<string, string>,
+): void {
+  const file = entryPath(options.dir, key);
+  const entry: DiskCacheEntry = { format: CACHE_FORMAT, compilation, files: Object.fromEntries(files) };
+  const tmp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+  try {
+    fs.mkdirSync(options.dir, { recursive: true });
+    fs.writeFileSync(tmp, JSON.stringify(entry), "utf-8");
+    fs.renameSync(tmp, file);
+    pruneDiskCache(options.dir, options.maxSize ?? DEFAULT_CACHE_MAX_SIZE);
+  } catch {
+    fs.rmSync(tmp, { force: true });
+  }
+}
+
+function listEntries(dir: string): { file: string; size: number; mtimeMs: number }[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  const entries: { file: string; size: number; mtimeMs: number }[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    try {
+      const { size, mtimeMs } = fs.statSync(path.join(dir, name));
+      entries.push({ file: path.join(dir, name), size, mtimeMs });
+    } catch {
+      // Evicted by another process
+    }
+  }
+  return entries;
+}
+
+/**
+ * Evict least recently used entries until the cache fits in `maxSize` bytes.
+ */
+export function pruneDiskCache(dir: string, maxSize: number): void {
+  const entries = listEntries(dir);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  if (total <= maxSize) return;
+
+  entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const entry of entries) {
+    if (total <= maxSize) break;
+    fs.rmSync(entry.file, { force: true });
+    total -= entry.size;
+  }
+}
+
+/**
+ * Delete every entry (and any leftover temporary file) in `dir`.
+ */
+export function cleanDiskCache(dir: string): { entries: number; bytes: number } {
+  const entries = listEntries(dir);
+  for (const entry of entries) fs.rmSync(entry.file, { force: true });
+  try {
+    for (const name of fs.readdirSync(dir)) {
+      if (name.endsWith(".tmp")) fs.rmSync(path.join(dir, name), { force: true });
+    }
+  } catch {
+    // Nothing to clean
+  }
+  return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0) };
+}
@@ -1,62 +1,96 @@
 import type tslib from "typescript/lib/tsserverlibrary";
 
-import { extractTemplateSource, isSolTag, SolFileError } from "../ast-utils.js";
+import {
+  extractTemplateSource,
+  isSolTag,
+  type ResolveOptions,
+  SolFileError,
+  UnresolvedInterpolationError,
+} from "../ast-utils.js";
+import type { SolcInputOptions } from "../solc.js";
 
 export interface SolLiteralInfo {
   /** Solidity source text, or undefined if the template has unresolvable interpolations or solFile failure */
   source: string | undefined;
   /** Contract name from sol("Name") factory form */
   contractName: string;
+  /** Per-template compiler settings from sol("Name", { ... }) */
+  settings?: SolcInputOptions;
   /** Position of the template literal expression in the source file */
   pos: number;
   /** End position */
   end: number;
   /** The node itself */
   node: tslib.TaggedTemplateExpression;
-  /** Populated when a `solFile(...)` interpolation failed at read time */
+  /** Populated when a `solFile(...)` interpolation failed at read time, or the settings argument isn't static */
   resolverError?: { node: tslib.Node; message: string };
+  /** Populated when an interpolation can't be resolved at build time: the `${...}` expression, and why */
+  unresolved?: { node: tslib.Node; message: string };
 }
 
 /**
- * Check if a tag expression is a sol("Name") call expression.
- * Returns the contract name, or false if the tag is not a sol tag.
+ * Check if a tag expression is a sol("Name") call expression, with `sol`
+ * imported from "soltag". Returns the contract name, or false if the tag is
+ * not a sol tag.
  *
- * NOTE: This detection logic is mirrored in bundler/unplugin.ts for the build plugin,
- * which uses `typescript` directly instead of `tsserverlibrary`.
+ * NOTE: The bundler plugin and CLI use the same function with `typescript`
+ * directly instead of `tsserverlibrary`.
  */
 export { isSolTag };
 
 /**
  * Find all `sol("Name")` tagged template expressions in a source file.
+ * Pass `options.modules` to resolve constants imported from other modules.
  */
-export function findSolTemplateLiterals(ts: typeof tslib, sourceFile: tslib.SourceFile): SolLiteralInfo[] {
+export function findSolTemplateLiterals(
+  ts: typeof tslib,
+  sourceFile: tslib.SourceFile,
+  options?: ResolveOptions,
+): SolLiteralInfo[] {
   const results: SolLiteralInfo[] = [];
 
   function visit(node: tslib.Node) {
     if (ts.isTaggedTemplateExpression(node)) {
-      const solTag = isSolTag(ts, node.tag);
+      const solTag = isSolTag(ts, node.tag, sourceFile);
       if (solTag !== false) {
         let source: string | undefined;
         let resolverError: SolLiteralInfo["resolverError"];
+        let unresolved: SolLiteralInfo["unresolved"];
+        if (solTag.unresolvedSettings) {
+          resolverError = {
+            node: solTag.unresolvedSettings as unknown as tslib.Node,
+            message: `sol("${solTag.contractName}") settings must be a statically-resolvable object literal`,
+          };
+        }
         try {
-          source = extractTemplateSource(ts, node.template, sourceFile as unknown as tslib.SourceFile);
+          source = extractTemplateSource(ts, node.template, sourceFile as unknown as tslib.SourceFile, {
+            ...options,
+            strict: true,
+          });
         } catch (err) {
           if (err instanceof SolFileError) {
             resolverError = {
               node: err.node as unknown as tslib.Node,
               message: err.message,
             };
+          } else if (err instanceof UnresolvedInterpolationError) {
+            unresolved = {
+              node: err.node as unknown as tslib.Node,
+              message: err.message,
+            };
           } else {
             throw err;
           }
         }
         results.push({
-          source,
+          source: resolverError ? undefined : source,
           contractName: solTag.contractName,
+          settings: solTag.settings,
           pos: node.pos,
           end: node.end,
           node,
           resolverError,
+          unresolved,
         });
       }
     }
@@ -1,63 +1,26 @@
 import type tslib from "typescript/lib/tsserverlibrary";
 
-import { resolveStringExpression } from "../ast-utils.js";
-import { compileCached, type SolcStandardOutput } from "../solc.js";
+import { mapTemplateOffset, type ResolveOptions } from "../ast-utils.js";
+import { templateOwners } from "../compile-cache.js";
+import { compileContextFor } from "../config.js";
+import { createProgramModuleHost } from "../module-host.js";
+import {
+  applyWarningPolicy,
+  compileCached,
+  mergeSolcSettings,
+  releaseCompiledFile,
+  type SolcCompilation,
+  warningPolicyFor,
+} from "../solc.js";
+import { missingContractMessage } from "../suggest.js";
 
 import { findSolTemplateLiterals } from "./analysis.js";
-import { isDuplicateContractName } from "./typegen.js";
-
-/**
- * Map a position in the compiled Solidity source back to the corresponding
- * position in the editor's template literal, accounting for interpolations
- * whose resolved text may be longer or shorter than the `${expr}` syntax.
- */
-function mapCompiledPosToEditor(
-  ts: typeof tslib,
-  template: tslib.TemplateLiteral,
-  sourceFile: tslib.SourceFile,
-  compiledPos: number,
-  side: "start" | "end",
-): number {
-  // No interpolations — compiled source is a 1:1 match with the template text
-  if (ts.isNoSubstitutionTemplateLiteral(template)) {
-    return template.getStart(sourceFile) + 1 + compiledPos; // +1 for backtick
-  }
-
-  // TemplateExpression: walk head + spans, tracking compiled offset
-  const expr = template as tslib.TemplateExpression;
-  let compiledOffset = 0;
-
-  // Head text region (1:1 with editor)
-  const headLen = expr.head.text.length;
-  if (compiledPos < compiledOffset + headLen) {
-    return expr.head.getStart(sourceFile) + 1 + (compiledPos - compiledOffset);
-  }
-  compiledOffset += headLen;
-
-  for (const span of expr.templateSpans) {
-    // Resolved expression region — map to the expression node in the editor
-    const resolved = resolveStringExpression(ts, span.expression, sourceFile);
-    const resolvedLen = resolved?.length ?? 0;
-    if (compiledPos < compiledOffset + resolvedLen) {
-      return side === "start" ? span.expression.getStart(sourceFile) : span.expression.getEnd();
-    }
-    compiledOffset += resolvedLen;
-
-    // Literal text region after expression (1:1 with editor)
-    const litLen = span.literal.text.length;
-    if (compiledPos < compiledOffset + litLen) {
-      return span.literal.getStart(sourceFile) + 1 + (compiledPos - compiledOffset);
-    }
-    compiledOffset += litLen;
-  }
-
-  // Past the end — return end of template
-  return template.getEnd() - 1;
-}
+import { isDuplicateContractName, loadProjectConfig } from "./typegen.js";
 
 export function createGetSemanticDiagnostics(
   ts: typeof tslib,
   info: tslib.server.PluginCreateInfo,
+  projectDirectory: string,
 ): tslib.LanguageService["getSemanticDiagnostics"] {
   return (fileName) => {
     const prior = info.languageService.getSemanticDiagnostics(fileName);
@@ -68,10 +31,21 @@ export function createGetSemanticDiagnostics(
     const sourceFile = program.getSourceFile(fileName);
     if (!sourceFile) return prior;
 
-    const solLiterals = findSolTemplateLiterals(ts, sourceFile);
+    const resolveOptions: ResolveOptions = {
+      modules: createProgramModuleHost(ts, program),
+    };
+    const solLiterals = findSolTemplateLiterals(ts, sourceFile, resolveOptions);
     const solDiagnostics: tslib.Diagnostic[] = [];
-
-    for (const literal of solLiterals) {
+    const owners = templateOwners(
+      fileName,
+      solLiterals.map((literal) => literal.contractName),
+    );
+    // Templates that were removed or renamed no longer pin their last compilation
+    releaseCompiledFile(fileName, owners);
+    if (solLiterals.length === 0) return prior;
+    const config = loadProjectConfig(ts, info, projectDirectory);
+
+    for (const [i, literal] of solLiterals.entries()) {
       // Build-time resolver failure (e.g. solFile read error) — paint the squiggle on the offending call expression
       if (literal.resolverError) {
         const start = literal.resolverError.node.getStart(sourceFile);
@@ -87,6 +61,21 @@ export function createGetSemanticDiagnostics(
         continue;
       }
 
+      // Interpolation that can't be resolved at build time — squiggle the `${...}` expression. An error
+      // in strict mode, where it fails the build too
+      if (literal.unresolved) {
+        const start = literal.unresolved.node.getStart(sourceFile);
+        solDiagnostics.push({
+          file: sourceFile,
+          start,
+          length: Math.max(literal.unresolved.node.getEnd() - start, 1),
+          messageText: literal.unresolved.message,
+          category: config.strict ? ts.DiagnosticCategory.Error : ts.DiagnosticCategory.Warning,
+          code: 90005,
+        });
+        continue;
+      }
+
       // Warn when multiple contracts share a name but have different compiled signatures
       if (literal.source != null && isDuplicateContractName(literal.contractName)) {
         solDiagnostics.push({
@@ -101,22 +90,28 @@ export function createGetSemanticDiagnostics(
 
       if (literal.source === undefined) continue;
 
-      let output: SolcStandardOutput;
+      let compilation: SolcCompilation;
       try {
-        output = compileCached(literal.source);
-      } catch {
-        // If solc itself crashes, report a generic error
+        compilation = compileCached(literal.source, mergeSolcSettings(config.solc, literal.settings), {
+          ...compileContextFor(config, fileName),
+          owner: owners[i],
+        });
+      } catch (err) {
+        // If solc itself crashes (or the pinned version isn't available), report a generic error
         solDiagnostics.push({
           file: sourceFile,
           start: literal.pos,
           length: literal.end - literal.pos,
-          messageText: "Failed to compile Solidity source",
+          messageText: `Failed to compile Solidity source: ${(err as Error).message}`,
           category: ts.DiagnosticCategory.Error,
           code: 90001,
         });
         continue;
       }
 
+      const { output, sourceName, compilerVersion } = compilation;
+      const compiledWith = `(solc ${compilerVersion.split("+")[0]})`;
+
       // Check if the named contract exists in the compilation output
       const contractNames = output.contracts ? Object.values(output.contracts).flatMap((f) => Object.keys(f)) : [];
       if (!contractNames.includes(literal.contractName)) {
@@ -125,7 +120,7 @@ export function createGetSemanticDiagnostics(
           file: sourceFile,
           start: tag.getStart(sourceFile),
           length: tag.getEnd() - tag.getStart(sourceFile),
-          messageText: `Contract "${literal.contractName}" not found in Solidity source. Available contracts: ${contractNames.join(", ") || "(none)"}`,
+          messageText: missingContractMessage(literal.contractName, contractNames, compiledWith),
           category: ts.DiagnosticCategory.Error,
           code: 90003,
         });
@@ -133,7 +128,7 @@ export function createGetSemanticDiagnostics(
 
       if (!output.errors) continue;
 
-      for (const error of output.errors) {
+      for (const error of applyWarningPolicy(output.errors, warningPolicyFor(literal.source, config.warnings))) {
         const category =
           error.severity === "error"
             ? ts.DiagnosticCategory.Error
@@ -144,19 +139,23 @@ export function createGetSemanticDiagnostics(
         // Try to map source location within the template literal
         let start = literal.pos;
         let length = literal.end - literal.pos;
+        let messageText = error.message;
 
-        if (error.sourceLocation && error.sourceLocation.file === "inline.sol") {
+        if (error.sourceLocation && error.sourceLocation.file === sourceName) {
           const templateNode = literal.node.template;
-          start = mapCompiledPosToEditor(ts, templateNode, sourceFile, error.sourceLocation.start, "start");
-          const end = mapCompiledPosToEditor(ts, templateNode, sourceFile, error.sourceLocation.end, "end");
+          start = mapTemplateOffset(ts, templateNode, sourceFile, error.sourceLocation.start, "start", resolveOptions);
+          const end = mapTemplateOffset(ts, templateNode, sourceFile, error.sourceLocation.end, "end", resolveOptions);
           length = Math.max(end - start, 1);
+        } else if (error.sourceLocation) {
+          // Error inside an imported file — keep the whole-template span but say where it is
+          messageText = `${error.sourceLocation.file}: ${error.message}`;
         }
 
         solDiagnostics.push({
           file: sourceFile,
           start,
           length,
-          messageText: error.message,
+          messageText: `${messageText} ${compiledWith}`,
           category,
           code: 90000,
         });
@@ -3,8 +3,11 @@ import * as path from "path";
 
 import type tslib from "typescript/lib/tsserverlibrary";
 
+import type { CompileCacheStats } from "../compile-cache.js";
+import { configureCompileCache, getCompileCacheStats } from "../solc.js";
+
 import { createGetSemanticDiagnostics } from "./diagnostics.js";
-import { getTypesFilePath, regenerateTypesFile } from "./typegen.js";
+import { loadProjectConfig, regenerateTypesFile } from "./typegen.js";
 
 function init(modules: { typescript: typeof tslib }) {
   const ts = modules.typescript;
@@ -14,6 +17,14 @@ function init(modules: { typescript: typeof tslib }) {
   let cachedExternalFiles: string[] = [];
   let lastRegenerate = 0;
   const REGENERATE_INTERVAL_MS = 1000;
+  let lastStats = "";
+
+  function formatStats(stats: CompileCacheStats): string {
+    return (
+      `${stats.entries} entries, ${(stats.bytes / 1024).toFixed(1)} KiB, ` +
+      `${stats.hits} hits / ${stats.misses} misses, ${stats.evictions} evicted, ${stats.invalidations} invalidated`
+    );
+  }
 
   function create(info: tslib.server.PluginCreateInfo) {
     info.project.projectService.logger.info("soltag plugin loaded");
@@ -29,7 +40,7 @@ function init(modules: { typescript: typeof tslib }) {
       proxy[k] = (...args: unknown[]) => (x as Function).apply(info.languageService, args);
     }
 
-    proxy.getSemanticDiagnostics = createGetSemanticDiagnostics(ts, info);
+    proxy.getSemanticDiagnostics = createGetSemanticDiagnostics(ts, info, projectDirectory);
 
     return proxy;
   }
@@ -41,10 +52,18 @@ function init(modules: { typescript: typeof tslib }) {
 
     // Only regenerate types file at most once per second
     if (now - lastRegenerate > REGENERATE_INTERVAL_MS) {
-      regenerateTypesFile(ts, pluginInfo, projectDirectory);
-      const typesFile = getTypesFilePath(projectDirectory);
-      cachedExternalFiles = fs.existsSync(typesFile) ? [typesFile] : [];
+      const config = loadProjectConfig(ts, pluginInfo, projectDirectory);
+      configureCompileCache(config.memoryCache);
+      regenerateTypesFile(ts, pluginInfo, config);
+      cachedExternalFiles = fs.existsSync(config.typesFile) ? [config.typesFile] : [];
       lastRegenerate = now;
+
+      // Surface cache behaviour in the tsserver log, but only when something changed
+      const stats = formatStats(getCompileCacheStats());
+      if (stats !== lastStats) {
+        pluginInfo.project.projectService.logger.info(`soltag: compile cache: ${stats}`);
+        lastStats = stats;
+      }
     }
 
     return cachedExternalFiles;
@@ -3,8 +3,24 @@ import * as path from "path";
 
 import type tslib from "typescript/lib/tsserverlibrary";
 
-import { type ContractTypeEntry, generateDeclarationContent, SOLTAG_DIR, SOLTAG_TYPES_FILE } from "../codegen.js";
-import { compileCached, getConstructorInputs, getContractAbi, type SolcStandardOutput } from "../solc.js";
+import { type ContractTypeEntry, generateDeclarationContent } from "../codegen.js";
+import { templateOwners } from "../compile-cache.js";
+import { compileContextFor, type ResolvedConfig, resolveConfig, type SoltagConfig } from "../config.js";
+import { createProgramModuleHost } from "../module-host.js";
+import {
+  compileSolModuleTypes,
+  findSolImports,
+  type SolModuleTypes,
+  writeSolModuleDeclaration,
+} from "../sol-modules.js";
+import {
+  compileCached,
+  getConstructorInputs,
+  getContractAbi,
+  mergeSolcSettings,
+  type SolcInputOptions,
+  type SolcStandardOutput,
+} from "../solc.js";
 
 import { findSolTemplateLiterals } from "./analysis.js";
 
@@ -20,15 +36,32 @@ export function isDuplicateContractName(name: string): boolean {
 }
 
 /**
- * Get the path to the generated types file for a project directory.
+ * Resolve the project's soltag config, with the tsconfig plugin entry's
+ * options (`info.config`) layered on top. A malformed `soltag.config.*` or
+ * `foundry.toml` is logged and skipped so the rest of the plugin keeps working.
  */
-export function getTypesFilePath(projectDirectory: string): string {
-  return path.join(projectDirectory, SOLTAG_DIR, SOLTAG_TYPES_FILE);
+export function loadProjectConfig(
+  ts: typeof tslib,
+  info: tslib.server.PluginCreateInfo,
+  projectDirectory: string,
+): ResolvedConfig {
+  const overrides = info.config as SoltagConfig | undefined;
+  const tsModule = ts as unknown as Parameters<typeof resolveConfig>[0];
+  try {
+    return resolveConfig(tsModule, projectDirectory, overrides);
+  } catch (err) {
+    info.project.projectService.logger.info(`soltag: ${(err as Error).message}`);
+    return resolveConfig(tsModule, projectDirectory, overrides, { files: false });
+  }
 }
 
 interface RawSolEntry {
   contractName: string;
   source: string;
+  fileName: string;
+  settings?: SolcInputOptions;
+  /** See {@link templateOwners} */
+  owner: string;
 }
 
 /**
@@ -39,37 +72,68 @@ function collectSolEntries(ts: typeof tslib, info: tslib.server.PluginCreateInfo
   if (!program) return [];
 
   const entries: RawSolEntry[] = [];
+  const modules = createProgramModuleHost(ts, program);
 
   for (const sourceFile of program.getSourceFiles()) {
     // Skip declaration files and node_modules
     if (sourceFile.isDeclarationFile) continue;
     if (sourceFile.fileName.includes("node_modules")) continue;
 
-    const literals = findSolTemplateLiterals(ts, sourceFile);
-    for (const lit of literals) {
+    const literals = findSolTemplateLiterals(ts, sourceFile, { modules });
+    const owners = templateOwners(
+      sourceFile.fileName,
+      literals.map((lit) => lit.contractName),
+    );
+    literals.forEach((lit, i) => {
       if (lit.source != null) {
         entries.push({
           contractName: lit.contractName,
           source: lit.source,
+          fileName: sourceFile.fileName,
+          settings: lit.settings,
+          owner: owners[i],
         });
       }
-    }
+    });
   }
 
   return entries;
 }
 
+/**
+ * Compile the `.sol` files the project's source files import.
+ */
+function collectSolModules(ts: typeof tslib, info: tslib.server.PluginCreateInfo, config: ResolvedConfig) {
+  const program = info.languageService.getProgram();
+  if (!program) return [];
+
+  const tsModule = ts as unknown as Parameters<typeof findSolImports>[0];
+  const files = new Set<string>();
+  for (const sourceFile of program.getSourceFiles()) {
+    if (sourceFile.isDeclarationFile) continue;
+    if (sourceFile.fileName.includes("node_modules")) continue;
+    for (const file of findSolImports(tsModule, sourceFile as unknown as Parameters<typeof findSolImports>[1])) {
+      files.add(file);
+    }
+  }
+
+  return [...files].map((file) => compileSolModuleTypes(file, config)).filter((m): m is SolModuleTypes => !!m);
+}
+
 /**
  * Compile raw sol entries into ContractTypeEntry[] for codegen.
  * Extracts constructor inputs for bytecode() overloads.
  */
-function compileEntries(rawEntries: RawSolEntry[]): ContractTypeEntry[] {
+function compileEntries(rawEntries: RawSolEntry[], config: ResolvedConfig): ContractTypeEntry[] {
   const entries: ContractTypeEntry[] = [];
 
   for (const raw of rawEntries) {
     let output: SolcStandardOutput;
     try {
-      output = compileCached(raw.source);
+      ({ output } = compileCached(raw.source, mergeSolcSettings(config.solc, raw.settings), {
+        ...compileContextFor(config, raw.fileName),
+        owner: raw.owner,
+      }));
     } catch {
       continue;
     }
@@ -83,19 +147,25 @@ function compileEntries(rawEntries: RawSolEntry[]): ContractTypeEntry[] {
 }
 
 /**
- * Regenerate the .soltag/types.d.ts file if content has changed.
+ * Regenerate the generated types file (`.soltag/types.d.ts` unless
+ * configured otherwise) if content has changed.
  * Returns true if the file was written (or deleted).
  */
 export function regenerateTypesFile(
   ts: typeof tslib,
   info: tslib.server.PluginCreateInfo,
-  projectDirectory: string,
+  config: ResolvedConfig,
 ): boolean {
-  const typesFile = getTypesFilePath(projectDirectory);
+  const typesFile = config.typesFile;
   const rawEntries = collectSolEntries(ts, info);
-  const compiled = compileEntries(rawEntries);
+  const solModules = collectSolModules(ts, info, config);
+  const compiled = [...compileEntries(rawEntries, config), ...solModules.flatMap((m) => m.entries)];
   const { content, duplicates } = generateDeclarationContent(compiled);
 
+  // `Lens.sol.d.ts` next to each imported `.sol` file
+  let wroteModules = false;
+  for (const types of solModules) wroteModules = writeSolModuleDeclaration(types) || wroteModules;
+
   duplicateContractNames = new Set(duplicates);
 
   for (const name of duplicates) {
@@ -110,7 +180,7 @@ export function regenerateTypesFile(
       fs.unlinkSync(typesFile);
       return true;
     }
-    return false;
+    return wroteModules;
   }
 
   // Only write if content changed
@@ -126,7 +196,7 @@ export function regenerateTypesFile(
     // File doesn't exist yet
   }
 
-  if (existing === content) return false;
+  if (existing === content) return wroteModules;
 
   fs.writeFileSync(typesFile, content, "utf-8");
   return true;
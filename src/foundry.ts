@@ -0,0 +1,163 @@
+/**
+ * Foundry project discovery. Maps the active `foundry.toml` profile (and
+ * `remappings.txt`) onto solc standard-JSON settings so inline templates
+ * compile the same way `forge build` does.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { parse as parseToml } from "smol-toml";
+
+import { type EvmVersion, type SolcInputOptions, validateSolcSettings } from "./solc.js";
+
+export const FOUNDRY_CONFIG_FILE = "foundry.toml";
+export const REMAPPINGS_FILE = "remappings.txt";
+
+export interface FoundryConfig {
+  /** Directory holding `foundry.toml` / `remappings.txt`. Remapping targets are relative to it. */
+  root: string;
+  /** Compiler version pinned by `solc_version` (or its `solc` alias) */
+  version?: string;
+  /** Settings mapped from the active profile */
+  solc: SolcInputOptions;
+}
+
+type TomlTable = Record<string, unknown>;
+
+/**
+ * Walk up from `startDir` to the nearest directory containing a
+ * `foundry.toml` or `remappings.txt`.
+ */
+export function findFoundryRoot(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    if (fs.existsSync(path.join(dir, FOUNDRY_CONFIG_FILE)) || fs.existsSync(path.join(dir, REMAPPINGS_FILE))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function readIfExists(filePath: string): { contents: string; mtimeMs: number } | undefined {
+  try {
+    const { mtimeMs } = fs.statSync(filePath);
+    return { contents: fs.readFileSync(filePath, "utf-8"), mtimeMs };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse `remappings.txt`: one `prefix=target` per line, `#` comments allowed.
+ */
+export function parseRemappingsFile(contents: string): string[] {
+  return contents
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line.length > 0);
+}
+
+function asTable(value: unknown): TomlTable | undefined {
+  return value !== null && typeof value === "object" && !Array.isArray(value) ? (value as TomlTable) : undefined;
+}
+
+/**
+ * Map a merged Foundry profile onto solc settings. Only the keys that affect
+ * compiler output are read; everything else in the profile is ignored.
+ */
+export function profileToSolcSettings(profile: TomlTable): { version?: string; solc: SolcInputOptions } {
+  const solc: SolcInputOptions = {};
+
+  const optimizer: NonNullable<SolcInputOptions["optimizer"]> = {};
+  if (typeof profile.optimizer === "boolean") optimizer.enabled = profile.optimizer;
+  if (typeof profile.optimizer_runs === "number") optimizer.runs = profile.optimizer_runs;
+  const details = asTable(profile.optimizer_details);
+  if (details) optimizer.details = details as NonNullable<typeof optimizer.details>;
+  if (Object.keys(optimizer).length > 0) solc.optimizer = optimizer;
+
+  if (typeof profile.evm_version === "string") solc.evmVersion = profile.evm_version as EvmVersion;
+  if (typeof profile.via_ir === "boolean") solc.viaIR = profile.via_ir;
+
+  const metadata: NonNullable<SolcInputOptions["metadata"]> = {};
+  if (typeof profile.bytecode_hash === "string") {
+    metadata.bytecodeHash = profile.bytecode_hash as NonNullable<typeof metadata.bytecodeHash>;
+  }
+  if (typeof profile.cbor_metadata === "boolean") metadata.appendCBOR = profile.cbor_metadata;
+  if (typeof profile.use_literal_content === "boolean") metadata.useLiteralContent = profile.use_literal_content;
+  if (Object.keys(metadata).length > 0) solc.metadata = metadata;
+
+  if (typeof profile.revert_strings === "string") {
+    solc.debug = { revertStrings: profile.revert_strings as NonNullable<SolcInputOptions["debug"]>["revertStrings"] };
+  }
+  if (Array.isArray(profile.remappings)) {
+    solc.remappings = profile.remappings.filter((r): r is string => typeof r === "string");
+  }
+
+  const version = profile.solc_version ?? profile.solc;
+  return { version: typeof version === "string" ? version : undefined, solc };
+}
+
+const cache = new Map<string, { key: string; config: FoundryConfig }>();
+
+/**
+ * Load the Foundry configuration that applies to `startDir`, using the
+ * profile named by `FOUNDRY_PROFILE` (default: `default`). Non-default
+ * profiles inherit from `[profile.default]`, as in Foundry.
+ *
+ * Remappings from `remappings.txt` and the profile are combined, with the
+ * profile taking precedence for identical prefixes.
+ * Returns undefined when no Foundry project is found.
+ *
+ * Throws if `foundry.toml` isn't valid TOML, or its settings aren't valid
+ * solc settings.
+ */
+export function loadFoundryConfig(
+  startDir: string,
+  profileName = process.env.FOUNDRY_PROFILE ?? "default",
+): FoundryConfig | undefined {
+  const root = findFoundryRoot(startDir);
+  if (!root) return undefined;
+
+  const toml = readIfExists(path.join(root, FOUNDRY_CONFIG_FILE));
+  const remappingsTxt = readIfExists(path.join(root, REMAPPINGS_FILE));
+
+  // Re-parse only when either file changed, so per-transform lookups stay cheap
+  const key = JSON.stringify([profileName, toml?.mtimeMs, remappingsTxt?.mtimeMs]);
+  const cached = cache.get(root);
+  if (cached && cached.key === key) return cached.config;
+
+  let profile: TomlTable = {};
+  if (toml) {
+    let parsed: TomlTable;
+    try {
+      parsed = parseToml(toml.contents) as TomlTable;
+    } catch (err) {
+      throw new Error(`soltag: failed to parse ${path.join(root, FOUNDRY_CONFIG_FILE)}: ${(err as Error).message}`);
+    }
+    const profiles = asTable(parsed.profile) ?? {};
+    profile = { ...asTable(profiles.default), ...(profileName !== "default" ? asTable(profiles[profileName]) : {}) };
+  }
+
+  const { version, solc } = profileToSolcSettings(profile);
+  try {
+    validateSolcSettings(solc);
+  } catch (err) {
+    // e.g. an `evm_version` this solc doesn't know: name the file rather than failing in solc
+    const problems = (err as Error).message.slice((err as Error).message.indexOf("\n"));
+    throw new Error(
+      `soltag: invalid compiler settings in ${path.join(root, FOUNDRY_CONFIG_FILE)} (profile "${profileName}"):${problems}`,
+    );
+  }
+  if (remappingsTxt) {
+    // solc prefers the later of two equal-length prefixes, so profile entries win
+    const remappings = [...parseRemappingsFile(remappingsTxt.contents), ...(solc.remappings ?? [])];
+    if (remappings.length > 0) solc.remappings = remappings;
+  }
+
+  const config: FoundryConfig = { root, version, solc };
+  cache.set(root, { key, config });
+  return config;
+}
@@ -0,0 +1,129 @@
+/**
+ * Resolution of Solidity `import` statements for solc's import callback.
+ *
+ * Source unit names are kept relative to the project root so compiled
+ * metadata (and therefore CREATE2 addresses) doesn't depend on where the
+ * project is checked out. Remapping targets resolve against the same root.
+ */
+
+import * as fs from "fs";
+import { createRequire } from "module";
+import * as path from "path";
+
+import type { CompileContext } from "./solc.js";
+
+export type ImportCallbackResult = { contents: string } | { error: string };
+
+export interface ImportResolver {
+  /** Passed to `solc.compile` as the `import` callback */
+  callback: (sourceUnitName: string) => ImportCallbackResult;
+  /** Absolute path → contents of every file the callback handed to solc */
+  files: Map<string, string>;
+}
+
+const IMPORT_RE = /(\bimport\s+(?:[^"';]*?\s+from\s+)?)(["'])([^"']+)\2/g;
+
+/**
+ * True if the source contains at least one `import` directive.
+ */
+export function hasImports(source: string): boolean {
+  IMPORT_RE.lastIndex = 0;
+  return IMPORT_RE.test(source);
+}
+
+function hasRelativeImports(source: string): boolean {
+  for (const match of source.matchAll(IMPORT_RE)) {
+    if (match[3].startsWith("./") || match[3].startsWith("../")) return true;
+  }
+  return false;
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+/**
+ * Directory source unit names are relative to: the project root, or the
+ * filesystem root for templates outside it.
+ */
+export function effectiveRoot(context: CompileContext): string {
+  const root = context.root ?? context.basePath;
+  const rel = path.relative(root, context.basePath);
+  // Templates outside the project root fall back to the filesystem root so
+  // `../` imports still have somewhere to climb.
+  if (rel.startsWith("..") || path.isAbsolute(rel)) return path.parse(context.basePath).root;
+  return root;
+}
+
+/**
+ * Source unit name for the template itself. Stays `inline.sol` unless the
+ * template has relative imports — solc drops `../` segments that climb above
+ * the importing unit, so those templates are placed at their real directory
+ * (relative to the project root) instead.
+ */
+export function inlineSourceName(source: string, context?: CompileContext): string {
+  if (!context || !hasRelativeImports(source)) return "inline.sol";
+  const dir = toPosix(path.relative(effectiveRoot(context), context.basePath));
+  return dir === "" ? "inline.sol" : `${dir}/inline.sol`;
+}
+
+/**
+ * Create an import callback for one compilation. Source unit names are
+ * resolved, in order:
+ * - as absolute paths,
+ * - against the project root (covers relative imports and remapping targets),
+ * - through Node's package resolver anchored at `basePath`, so bare
+ *   specifiers like `@openzeppelin/contracts/...` find `node_modules`.
+ */
+export function createImportResolver(context: CompileContext): ImportResolver {
+  const root = effectiveRoot(context);
+  const files = new Map<string, string>();
+  const require = createRequire(path.resolve(context.basePath, "noop.js"));
+
+  function read(absPath: string): ImportCallbackResult | undefined {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(absPath, "utf-8");
+    } catch {
+      return undefined;
+    }
+    files.set(absPath, contents);
+    return { contents };
+  }
+
+  function callback(sourceUnitName: string): ImportCallbackResult {
+    if (path.isAbsolute(sourceUnitName)) {
+      return read(sourceUnitName) ?? { error: `File not found: ${sourceUnitName}` };
+    }
+
+    const fromRoot = read(path.resolve(root, sourceUnitName));
+    if (fromRoot) return fromRoot;
+
+    if (!sourceUnitName.startsWith(".")) {
+      try {
+        const resolved = read(require.resolve(sourceUnitName));
+        if (resolved) return resolved;
+      } catch {
+        // Not a package path — fall through to the not-found error
+      }
+    }
+
+    return { error: `File not found: ${sourceUnitName} (searched ${root} and node_modules from ${context.basePath})` };
+  }
+
+  return { callback, files };
+}
+
+/**
+ * Rewrite relative `import` paths in a spliced `.sol` file so they resolve
+ * from the template's directory instead of the file's own.
+ */
+export function rewriteRelativeImports(contents: string, fromDir: string, toDir: string): string {
+  if (fromDir === toDir) return contents;
+  return contents.replace(IMPORT_RE, (match, prefix: string, quote: string, specifier: string) => {
+    if (!specifier.startsWith("./") && !specifier.startsWith("../")) return match;
+    let rewritten = toPosix(path.relative(toDir, path.resolve(fromDir, specifier)));
+    if (!rewritten.startsWith(".")) rewritten = `./${rewritten}`;
+    return `${prefix}${quote}${rewritten}${quote}`;
+  });
+}
@@ -1,11 +1,17 @@
 import { type Abi, type Address, encodeAbiParameters, getContractAddress, type Hex, zeroAddress } from "viem";
 
+import type { SolcInputOptions } from "./solc.js";
+
+export type { SolcInputOptions };
+
 export interface CompiledContract {
   abi: Abi;
   /** Runtime bytecode (what lives at the contract address). Used with stateOverride. */
   deployedBytecode: Hex;
   /** Init bytecode (constructor + deployment code). Used for actual deployment. */
   bytecode: Hex;
+  /** Full solc version that compiled the contract, e.g. `"0.8.28+commit.7893614a"` */
+  compilerVersion?: string;
 }
 
 export type CompilationResult = Record<string, CompiledContract>;
@@ -45,21 +51,39 @@ export interface InlineContractAbiMap {}
 // biome-ignore lint/suspicious/noEmptyInterface: augmented by generated .d.ts
 export interface InlineContractConstructorArgsMap {}
 
+/**
+ * Values a template interpolates: `solFile(...)` contents and other strings,
+ * and number, bigint, boolean, enum and address constants, rendered as
+ * Solidity literals.
+ */
+export type SolValue = string | number | bigint | boolean;
+
 /**
  * Tag factory for inline Solidity templates. Write `sol("Name")\`...\`` to
  * define a contract. The bundler plugin compiles the Solidity at build time
  * and replaces the expression with a pre-compiled {@link InlineContract}.
  *
+ * An optional second argument overrides the project's compiler settings for
+ * this template only. It must be an object literal the plugin can read at
+ * build time:
+ *
+ * ```ts
+ * const lens = sol("Lens", { evmVersion: "paris", viaIR: true })`...`;
+ * ```
+ *
  * This function is never intended to execute at runtime — the bundler plugin
  * transforms it away. If it does execute, it throws an error indicating that
- * the plugin is missing.
+ * the plugin is missing. To compile at runtime instead (REPLs, notebooks),
+ * import `sol` from `soltag/runtime`.
  */
 export function sol<TName extends string>(
   _name: TName,
-): (strings: TemplateStringsArray, ...values: string[]) => InlineContract<TName> {
+  _settings?: SolcInputOptions,
+): (strings: TemplateStringsArray, ...values: SolValue[]) => InlineContract<TName> {
   throw new Error(
     "soltag: sol() was not transformed by the bundler plugin. " +
-      "Add soltag/vite (or the plugin for your bundler) to your build config.",
+      "Add soltag/vite (or the plugin for your bundler) to your build config, " +
+      'or import sol from "soltag/runtime" to compile at runtime in Node.',
   );
 }
 
@@ -88,10 +112,9 @@ export interface SolFileOptions {
  * `;
  * ```
  *
- * For transitive imports (e.g. a contract that imports OpenZeppelin), run
- * `forge flatten` as a codegen step in `package.json`, commit the output,
- * and reference the flat file with `solFile`. That keeps build environments
- * (Vercel, Netlify, etc.) free of Solidity-specific tooling.
+ * Relative `import` statements inside the file keep working — they're
+ * rewritten to resolve from the `.ts` file's directory. Templates can also
+ * `import` files directly; see the README for resolution rules.
  *
  * Like {@link sol}, this never executes at runtime — if it does, the plugin
  * is missing.
@@ -121,6 +144,11 @@ export class InlineContract<TName extends string = string> {
     return this._name;
   }
 
+  /** Full solc version the contract was compiled with, when known */
+  get compilerVersion(): string | undefined {
+    return this._contract.compilerVersion;
+  }
+
   get abi(): TName extends keyof InlineContractAbiMap ? InlineContractAbiMap[TName] : Abi {
     return this._contract.abi as TName extends keyof InlineContractAbiMap ? InlineContractAbiMap[TName] : Abi;
   }
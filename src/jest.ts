@@ -0,0 +1,109 @@
+/**
+ * Jest transformer: compiles `sol("Name")` templates (and `.sol` modules) the
+ * way the bundler plugins do, then strips types with an inline source map.
+ *
+ * ```js
+ * // jest.config.js
+ * export default {
+ *   transform: {
+ *     '^.+\\.(ts|tsx|mts|cts|sol)$': ['soltag/jest', { solc: { optimizer: { enabled: true } } }],
+ *   },
+ *   moduleFileExtensions: ['ts', 'tsx', 'js', 'sol'],
+ * };
+ * ```
+ *
+ * Jest allows one transformer per file, so this one also compiles the files
+ * without templates. Options are the plugin options; `root` defaults to
+ * Jest's `rootDir`.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+
+import ts from "typescript";
+
+import type { SoltagPluginOptions } from "./bundler/unplugin.js";
+import { configCacheKey, resolveConfig } from "./config.js";
+import { transformForNode, transpileForNode } from "./register/compile.js";
+
+/** The parts of `@jest/transform`'s `TransformOptions` the transformer reads */
+interface TransformOptions {
+  config: { rootDir: string };
+  /** Serialized project config, for the cache key */
+  configString: string;
+  /** Whether Jest runs this file as an ES module */
+  supportsStaticESM?: boolean;
+}
+
+interface SoltagTransformer {
+  canInstrument: false;
+  getCacheKey(sourceText: string, sourcePath: string, options: TransformOptions): string;
+  process(sourceText: string, sourcePath: string, options: TransformOptions): { code: string };
+}
+
+type Transformed = ReturnType<typeof transformForNode>;
+
+function readOrEmpty(file: string): string {
+  try {
+    return fs.readFileSync(file, "utf-8");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * A transformer for Jest's `transform` config, which passes the options given
+ * there in as `options`.
+ */
+export function createTransformer(options?: SoltagPluginOptions): SoltagTransformer {
+  // getCacheKey has to transform to learn the dependencies; process reuses that result
+  const transformed = new Map<string, Transformed>();
+  const memoKey = (sourceText: string, sourcePath: string) =>
+    `${sourcePath}\0${createHash("sha256").update(sourceText).digest("hex")}`;
+  const pluginOptions = (transform: TransformOptions): SoltagPluginOptions => ({
+    ...options,
+    root: options?.root ?? transform.config.rootDir,
+  });
+
+  return {
+    canInstrument: false,
+
+    /**
+     * Covers the source, Jest's config, the resolved soltag config (compiler
+     * settings included) and the contents of every dependency: `solFile`
+     * targets, imported `.sol` files and the modules of interpolated constants.
+     */
+    getCacheKey(sourceText, sourcePath, transform) {
+      const resolved = pluginOptions(transform);
+      const hash = createHash("sha256")
+        .update(sourcePath)
+        .update(sourceText)
+        .update(transform.configString)
+        .update(String(transform.supportsStaticESM))
+        .update(configCacheKey(resolveConfig(ts, resolved.root as string, resolved)));
+
+      let result: Transformed;
+      try {
+        result = transformForNode(sourceText, sourcePath, resolved);
+      } catch {
+        // Compile errors surface from `process`, which Jest doesn't cache
+        return hash.update(String(Date.now())).digest("hex");
+      }
+      transformed.set(memoKey(sourceText, sourcePath), result);
+      for (const dep of result?.dependencies ?? []) hash.update(dep).update(readOrEmpty(dep));
+      return hash.digest("hex");
+    },
+
+    process(sourceText, sourcePath, transform) {
+      const key = memoKey(sourceText, sourcePath);
+      const result = transformed.has(key)
+        ? transformed.get(key)
+        : transformForNode(sourceText, sourcePath, pluginOptions(transform));
+      transformed.delete(key);
+      const format = transform.supportsStaticESM ? "module" : "commonjs";
+      return { code: transpileForNode(result?.code ?? sourceText, sourcePath, format) };
+    },
+  };
+}
+
+export default { createTransformer };
@@ -0,0 +1,85 @@
+/**
+ * Module lookup for interpolations that reference constants imported from
+ * other TypeScript modules. The CLI and language service already have a
+ * program holding every file; the bundler plugins see one module at a time and
+ * read imported modules from disk.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import type typescript from "typescript";
+
+type TS = typeof typescript;
+
+export interface ModuleHost {
+  /** Absolute path of the module `specifier` names when imported from `containingFile` */
+  resolveModule(specifier: string, containingFile: string): string | undefined;
+  /** Parsed source of a resolved module, or undefined if it can't be read */
+  getSourceFile(fileName: string): typescript.SourceFile | undefined;
+}
+
+/**
+ * Resolve imports with the program's compiler options and read modules from
+ * the program itself.
+ */
+export function createProgramModuleHost(ts: TS, program: typescript.Program): ModuleHost {
+  const compilerOptions = program.getCompilerOptions();
+  return {
+    resolveModule: (specifier, containingFile) =>
+      ts.resolveModuleName(specifier, containingFile, compilerOptions, ts.sys).resolvedModule?.resolvedFileName,
+    getSourceFile: (fileName) => program.getSourceFile(fileName),
+  };
+}
+
+/**
+ * Resolve imports with `compilerOptions` and parse modules from disk. Parsed
+ * modules are reused until their mtime changes, so a rebuild after editing
+ * a shared fragment sees the new contents.
+ */
+export function createFileSystemModuleHost(ts: TS, compilerOptions: typescript.CompilerOptions): ModuleHost {
+  const files = new Map<string, { mtimeMs: number; sourceFile: typescript.SourceFile }>();
+
+  return {
+    resolveModule: (specifier, containingFile) =>
+      ts.resolveModuleName(specifier, containingFile, compilerOptions, ts.sys).resolvedModule?.resolvedFileName,
+
+    getSourceFile(fileName) {
+      try {
+        const { mtimeMs } = fs.statSync(fileName);
+        const cached = files.get(fileName);
+        if (cached?.mtimeMs === mtimeMs) return cached.sourceFile;
+
+        const sourceFile = ts.createSourceFile(
+          fileName,
+          fs.readFileSync(fileName, "utf-8"),
+          ts.ScriptTarget.Latest,
+          true,
+        );
+        files.set(fileName, { mtimeMs, sourceFile });
+        return sourceFile;
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
+
+/**
+ * Compiler options of the `tsconfig.json` nearest to `dir`, so module
+ * resolution honors the project's `paths` and `moduleResolution`. Falls back
+ * to bundler-style resolution when there is no (readable) tsconfig.
+ */
+export function loadCompilerOptions(ts: TS, dir: string): typescript.CompilerOptions {
+  const fallback: typescript.CompilerOptions = {
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    allowJs: true,
+  };
+
+  const configPath = ts.findConfigFile(dir, ts.sys.fileExists);
+  if (!configPath) return fallback;
+  const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (configFile.error) return fallback;
+  return ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(configPath)).options;
+}
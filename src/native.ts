@@ -0,0 +1,134 @@
+/**
+ * Native `solc` backend. Runs a solc binary with `--standard-json` over
+ * stdin instead of solc-js, for large templates where the WASM build is the
+ * bottleneck. Output is the same standard-JSON shape either way.
+ *
+ * The binary reads imports itself, so the import rules of
+ * {@link createImportResolver} are expressed as command-line paths: the
+ * project root as `--base-path` and every enclosing `node_modules` as an
+ * `--include-path`.
+ */
+
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+
+import { type AvailableCompiler, parsePragma, satisfies } from "./compilers.js";
+import { effectiveRoot } from "./imports.js";
+import type { CompileContext } from "./solc.js";
+
+export const DEFAULT_SOLC_BINARY = "solc";
+
+const versions = new Map<string, { mtimeMs: number | undefined; compiler: AvailableCompiler }>();
+
+function run(binary: string, args: string[], input?: string): string {
+  const result = spawnSync(binary, args, { input, encoding: "utf-8", maxBuffer: 256 * 1024 * 1024 });
+  if (result.error) {
+    const reason = (result.error as NodeJS.ErrnoException).code === "ENOENT" ? "not found" : result.error.message;
+    throw new Error(`soltag: native solc "${binary}" ${reason}. Install solc or set solcPath.`);
+  }
+  if (result.status !== 0) {
+    throw new Error(`soltag: native solc "${binary}" exited with ${result.status}: ${result.stderr.trim()}`);
+  }
+  return result.stdout;
+}
+
+function mtimeOf(binary: string): number | undefined {
+  try {
+    return fs.statSync(binary).mtimeMs;
+  } catch {
+    // A bare command name found on PATH
+    return undefined;
+  }
+}
+
+/**
+ * Version of the solc binary at `binary`, from `solc --version`.
+ */
+export function nativeCompilerVersion(binary: string): AvailableCompiler {
+  const mtimeMs = mtimeOf(binary);
+  const cached = versions.get(binary);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.compiler;
+
+  const match = /Version:\s*(\d+\.\d+\.\d+)(\+commit\.[0-9a-f]+)?/.exec(run(binary, ["--version"]));
+  if (!match) throw new Error(`soltag: could not read the version of native solc "${binary}"`);
+  const compiler = { version: match[1], longVersion: match[1] + (match[2] ?? "") };
+  versions.set(binary, { mtimeMs, compiler });
+  return compiler;
+}
+
+/**
+ * Check the native binary against a pinned version or the template's pragma.
+ * There is only one native compiler, so a mismatch is an error rather than a
+ * reason to pick another.
+ */
+export function selectNativeCompiler(source: string, options: { binary: string; version?: string }): AvailableCompiler {
+  const compiler = nativeCompilerVersion(options.binary);
+
+  if (options.version) {
+    const wanted = options.version.replace(/^v/, "").split("+")[0];
+    if (wanted !== compiler.version) {
+      throw new Error(`soltag: solc ${wanted} is pinned but native solc "${options.binary}" is ${compiler.version}`);
+    }
+    return compiler;
+  }
+
+  const range = parsePragma(source);
+  if (range !== undefined && !satisfies(compiler.version, range)) {
+    throw new Error(
+      `soltag: native solc "${options.binary}" is ${compiler.version}, which doesn't satisfy "pragma solidity ${range}"`,
+    );
+  }
+  return compiler;
+}
+
+function nodeModulesDirs(basePath: string): string[] {
+  const dirs: string[] = [];
+  let dir = path.resolve(basePath);
+  while (true) {
+    const candidate = path.join(dir, "node_modules");
+    if (fs.existsSync(candidate)) dirs.push(candidate);
+    const parent = path.dirname(dir);
+    if (parent === dir) return dirs;
+    dir = parent;
+  }
+}
+
+/**
+ * Compile a standard-JSON input with the native binary. Returns the raw
+ * output and, like the solc-js import callback, the contents of every
+ * imported file so cache entries can be checked for freshness.
+ */
+export function compileNative(
+  binary: string,
+  input: { sources: Record<string, unknown> },
+  context?: CompileContext,
+): { rawOutput: string; files: Map<string, string> } {
+  const args = ["--standard-json"];
+  const searchDirs: string[] = [];
+  if (context) {
+    const root = effectiveRoot(context);
+    searchDirs.push(root, ...nodeModulesDirs(context.basePath));
+    args.push("--base-path", root, ...searchDirs.slice(1).flatMap((dir) => ["--include-path", dir]));
+  }
+
+  const rawOutput = run(binary, args, JSON.stringify(input));
+
+  const files = new Map<string, string>();
+  const { sources = {} } = JSON.parse(rawOutput) as { sources?: Record<string, unknown> };
+  for (const sourceUnitName of Object.keys(sources)) {
+    if (sourceUnitName in input.sources) continue;
+    const candidates = path.isAbsolute(sourceUnitName)
+      ? [sourceUnitName]
+      : searchDirs.map((dir) => path.resolve(dir, sourceUnitName));
+    for (const candidate of candidates) {
+      try {
+        files.set(candidate, fs.readFileSync(candidate, "utf-8"));
+        break;
+      } catch {
+        // Not under this search path
+      }
+    }
+  }
+  return { rawOutput, files };
+}
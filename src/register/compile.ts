@@ -0,0 +1,108 @@
+/**
+ * Compile modules for Node's own loaders: templates are replaced like the
+ * bundler plugins do, then TypeScript strips types with an inline source map.
+ * Replacements keep every line where it was, so the map (and stack traces)
+ * point at the original file.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import ts from "typescript";
+
+import { emitWarnings } from "../bundler/errors.js";
+import { type SoltagPluginOptions, transformSolModule, transformSolTemplates } from "../bundler/unplugin.js";
+import { createExcludeFilter, resolveConfig } from "../config.js";
+import { loadCompilerOptions } from "../module-host.js";
+import { SOL_MODULE_FILTER } from "../sol-modules.js";
+
+export type ModuleFormat = "module" | "commonjs";
+
+// Project root → its `include` extensions and `exclude` matcher, resolved on first use
+const fileFilters = new Map<string, { include: string[]; isExcluded: (file: string) => boolean }>();
+
+/**
+ * Whether `file` is a `.sol` module or has one of the configured `include`
+ * extensions and matches no `exclude` pattern. Node asks for every module it
+ * loads, so the config is resolved once per root.
+ */
+export function handlesFile(file: string, root = process.cwd()): boolean {
+  if (SOL_MODULE_FILTER.test(file)) return true;
+  let filter = fileFilters.get(root);
+  if (!filter) {
+    const { include, exclude } = resolveConfig(ts, root);
+    filter = { include, isExcluded: createExcludeFilter(exclude) };
+    fileFilters.set(root, filter);
+  }
+  if (!filter.include.some((ext) => file.endsWith(ext))) return false;
+  return !filter.isExcluded(file);
+}
+
+/**
+ * How Node runs `file`: by its extension, else the `type` of the nearest
+ * `package.json`.
+ */
+export function moduleFormat(file: string): ModuleFormat {
+  if (/\.m[jt]s$/.test(file)) return "module";
+  if (/\.c[jt]s$/.test(file)) return "commonjs";
+  for (let dir = path.dirname(file); ; dir = path.dirname(dir)) {
+    const manifest = path.join(dir, "package.json");
+    if (fs.existsSync(manifest)) {
+      try {
+        return JSON.parse(fs.readFileSync(manifest, "utf-8")).type === "module" ? "module" : "commonjs";
+      } catch {
+        return "commonjs";
+      }
+    }
+    if (path.dirname(dir) === dir) return "commonjs";
+  }
+}
+
+/**
+ * Replace the templates in `file` (or compile it, for a `.sol` module), with
+ * every line kept in place. Undefined when it has no templates. Compile errors
+ * throw a `SoltagCompileError`; warnings go to `process.emitWarning`.
+ */
+export function transformForNode(
+  code: string,
+  file: string,
+  options?: SoltagPluginOptions,
+): { code: string; dependencies: string[] } | undefined {
+  const result = SOL_MODULE_FILTER.test(file)
+    ? transformSolModule(code, file, options)
+    : transformSolTemplates(code, file, options, true);
+  if (!result) return undefined;
+  emitWarnings(result.warnings);
+  return { code: result.code, dependencies: result.dependencies };
+}
+
+/**
+ * Strip types from `code` with the compiler options of `file`'s tsconfig,
+ * emitting `format` with an inline source map.
+ */
+export function transpileForNode(code: string, file: string, format: ModuleFormat): string {
+  const options = loadCompilerOptions(ts, path.dirname(file));
+  const { outputText } = ts.transpileModule(code, {
+    fileName: file,
+    compilerOptions: {
+      ...options,
+      module: format === "module" ? ts.ModuleKind.ESNext : ts.ModuleKind.CommonJS,
+      target: options.target ?? ts.ScriptTarget.ESNext,
+      sourceMap: false,
+      inlineSourceMap: true,
+      inlineSources: true,
+      declaration: false,
+      verbatimModuleSyntax: false,
+    },
+  });
+  return outputText;
+}
+
+/**
+ * JavaScript in `format` for `file`, or undefined when it has no templates
+ * (and isn't a `.sol` module), so the next loader can take it.
+ */
+export function compileForNode(code: string, file: string, format: ModuleFormat): string | undefined {
+  const transformed = transformForNode(code, file);
+  return transformed && transpileForNode(transformed.code, file, format);
+}
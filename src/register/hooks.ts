@@ -0,0 +1,33 @@
+/**
+ * ESM loader hooks, registered by `soltag/register` with `module.register`.
+ * They run on Node's loader thread.
+ */
+
+import * as fs from "fs";
+import type { LoadHook } from "module";
+import { fileURLToPath } from "url";
+
+import { SOL_MODULE_FILTER } from "../sol-modules.js";
+
+import { compileForNode, handlesFile, moduleFormat } from "./compile.js";
+
+/**
+ * Compile ES modules with templates, and `.sol` modules, from their original
+ * source — before tsx or any other loader later in the chain strips types.
+ * CommonJS modules that use soltag go to Node's CommonJS loader, where the
+ * require hook compiles them.
+ */
+export const load: LoadHook = async (url, context, nextLoad) => {
+  if (!url.startsWith("file:")) return nextLoad(url, context);
+  const file = fileURLToPath(url);
+  if (!handlesFile(file)) return nextLoad(url, context);
+
+  const code = await fs.promises.readFile(file, "utf-8");
+  if (!SOL_MODULE_FILTER.test(file) && moduleFormat(file) === "commonjs") {
+    return /["']soltag["']/.test(code) ? { format: "commonjs", shortCircuit: true } : nextLoad(url, context);
+  }
+
+  const source = compileForNode(code, file, "module");
+  if (source === undefined) return nextLoad(url, context);
+  return { format: "module", source, shortCircuit: true };
+};
@@ -0,0 +1,19 @@
+/**
+ * Run scripts that use `sol` without a bundler:
+ *
+ *   node --import soltag/register script.ts   (Node with type stripping)
+ *   tsx --import soltag/register script.ts
+ *   node --require soltag/register script.cjs
+ *
+ * Registers ESM loader hooks and a CommonJS require hook that compile
+ * templates (and `.sol` modules) as modules load, and enables source maps so
+ * stack traces point at the original files.
+ */
+
+import { register } from "module";
+
+import { installRequireHook } from "./require-hook.js";
+
+process.setSourceMapsEnabled(true);
+register("./register-hooks.js", import.meta.url);
+installRequireHook();
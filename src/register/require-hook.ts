@@ -0,0 +1,60 @@
+import * as fs from "fs";
+import Module from "module";
+
+import ts from "typescript";
+
+import { resolveConfig } from "../config.js";
+
+import { compileForNode, handlesFile, moduleFormat } from "./compile.js";
+
+type CompiledModule = NodeJS.Module & { _compile(code: string, filename: string): void };
+type ExtensionHandler = (module: CompiledModule, filename: string) => void;
+
+const extensions = (Module as unknown as { _extensions: Record<string, ExtensionHandler> })._extensions;
+
+/**
+ * Stands in for the handler of a TypeScript extension nothing registered:
+ * Node's `.js` handler would fail on the first type annotation instead.
+ */
+function missingLoader(ext: string): ExtensionHandler {
+  return (_module, filename) => {
+    throw new Error(
+      `soltag: can't require ${filename}: no loader is registered for ${ext} files. ` +
+        "Register a TypeScript loader such as tsx or ts-node before soltag/register.",
+    );
+  };
+}
+
+/**
+ * Compile CommonJS modules with templates, and required `.sol` modules, from
+ * their original source. Wraps the handler already registered for each
+ * extension (tsx's, or Node's `.js` one), which still loads every other file;
+ * TypeScript files need such a loader registered first.
+ * Returns a function that restores the previous handlers.
+ */
+export function installRequireHook(root = process.cwd()): () => void {
+  const { include } = resolveConfig(ts, root);
+  const previous = new Map<string, ExtensionHandler | undefined>();
+
+  for (const ext of [...include, ".sol"]) {
+    if (previous.has(ext)) continue;
+    const next = extensions[ext];
+    previous.set(ext, next);
+    extensions[ext] = (module, filename) => {
+      const fallback = next ?? (/\.[mc]?tsx?$/.test(ext) ? missingLoader(ext) : extensions[".js"]);
+      if (!handlesFile(filename, root) || (ext !== ".sol" && moduleFormat(filename) !== "commonjs")) {
+        return fallback(module, filename);
+      }
+      const compiled = compileForNode(fs.readFileSync(filename, "utf-8"), filename, "commonjs");
+      if (compiled === undefined) return fallback(module, filename);
+      module._compile(compiled, filename);
+    };
+  }
+
+  return () => {
+    for (const [ext, handler] of previous) {
+      if (handler) extensions[ext] = handler;
+      else delete extensions[ext];
+    }
+  };
+}
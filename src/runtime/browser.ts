@@ -0,0 +1,11 @@
+/**
+ * The `browser` export of `soltag/runtime`. Runtime compilation needs solc and
+ * the file system, so browser bundles get this module, which refuses to load.
+ */
+
+throw new Error(
+  "soltag/runtime compiles Solidity when templates run and only works in Node. " +
+    'In browser code, import `sol` from "soltag" and add soltag/vite (or the plugin for your bundler) to your build config.',
+);
+
+export {};
@@ -0,0 +1,121 @@
+/**
+ * `soltag/runtime`: `sol` and `solFile` that compile when they run, for REPLs,
+ * notebooks and quick tests where no bundler plugin transforms them away.
+ *
+ * ```ts
+ * import { sol } from "soltag/runtime";
+ *
+ * const fee = Number(process.env.FEE_BPS);
+ * const vault = sol("Vault")`
+ *   pragma solidity ^0.8.24;
+ *   contract Vault { uint256 constant FEE_BPS = ${fee}; }
+ * `;
+ * ```
+ *
+ * Interpolations are rendered from their runtime values, so anything goes —
+ * not just the constants the plugin can resolve at build time. Templates
+ * compile with solc-js (or the configured backend) on first use under the
+ * working directory's `soltag.config.*`; identical templates share one
+ * `InlineContract`. Node only: the `browser` export of this entry throws.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import { createRequire } from "module";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+import ts from "typescript";
+
+import { renderSolidityValue, stripSolidityHeader } from "../ast-utils.js";
+import { compileContextFor, type ResolvedConfig, resolveConfig } from "../config.js";
+import { rewriteRelativeImports } from "../imports.js";
+import { InlineContract, type SolFileOptions, type SolValue } from "../index.js";
+import { compileToArtifacts, mergeSolcSettings, type SolcInputOptions } from "../solc.js";
+import { missingContractMessage } from "../suggest.js";
+
+export * from "../index.js";
+
+let config: ResolvedConfig | undefined;
+const contracts = new Map<string, InlineContract>();
+
+/**
+ * The file of the code that called `fn`, from V8's structured stack trace.
+ * Falls back to a file in the working directory for code without one (the
+ * REPL, `node -e`), so relative paths resolve from there.
+ */
+function callerFile(fn: (...args: never[]) => unknown): string {
+  const prepare = Error.prepareStackTrace;
+  let fileName: string | null | undefined;
+  try {
+    Error.prepareStackTrace = (_, stack) => stack;
+    const holder: { stack?: NodeJS.CallSite[] } = {};
+    Error.captureStackTrace(holder, fn);
+    fileName = holder.stack?.[0]?.getFileName();
+  } finally {
+    Error.prepareStackTrace = prepare;
+  }
+  if (fileName?.startsWith("file:")) fileName = fileURLToPath(fileName);
+  return fileName && path.isAbsolute(fileName) ? fileName : path.join(process.cwd(), "[runtime]");
+}
+
+/**
+ * Compile `sol("Name")` templates when they run. Takes the same arguments as
+ * the build-time `sol`; interpolations may be any string, number, bigint or
+ * boolean. Compile errors throw `SolidityCompilationError`, and a template
+ * that doesn't define `name` throws with the contracts it does define.
+ */
+export function sol<TName extends string>(
+  name: TName,
+  settings?: SolcInputOptions,
+): (strings: TemplateStringsArray, ...values: SolValue[]) => InlineContract<TName> {
+  const file = callerFile(sol);
+  return (strings, ...values) => {
+    let source = strings[0];
+    values.forEach((value, i) => {
+      const rendered = renderSolidityValue(value);
+      if (rendered === undefined) {
+        throw new TypeError(
+          `soltag: interpolation ${i + 1} of sol("${name}") is ${typeof value === "object" ? "an object" : String(value)}, which has no Solidity literal form`,
+        );
+      }
+      source += rendered + strings[i + 1];
+    });
+
+    config ??= resolveConfig(ts, process.cwd());
+    const options = mergeSolcSettings(config.solc, settings);
+    const context = compileContextFor(config, file);
+    const key = createHash("sha256")
+      .update(JSON.stringify([name, source, options, context.basePath]))
+      .digest("hex");
+    const cached = contracts.get(key);
+    if (cached) return cached as InlineContract<TName>;
+
+    const { artifacts, compilerVersion, warnings } = compileToArtifacts(source, options, context, config.warnings);
+    if (!artifacts[name]) {
+      throw new Error(`soltag: ${missingContractMessage(name, Object.keys(artifacts), `(solc ${compilerVersion})`)}`);
+    }
+    if (config.warnings.report !== false) {
+      for (const warning of warnings) process.emitWarning(warning.formattedMessage.trim(), "SoltagWarning");
+    }
+
+    const contract = new InlineContract(name, { [name]: artifacts[name] });
+    contracts.set(key, contract);
+    return contract;
+  };
+}
+
+/**
+ * Read a `.sol` file for a runtime template, like the build-time `solFile`:
+ * paths resolve from the calling file (bare specifiers through Node's package
+ * resolver), relative `import`s inside it are rewritten to match, and the
+ * leading SPDX + pragma block is stripped unless `{ raw: true }`.
+ */
+export function solFile(specifier: string, opts?: SolFileOptions): string {
+  const file = callerFile(solFile);
+  const isBare = specifier.length > 0 && specifier[0] !== "." && specifier[0] !== "/";
+  const absPath = isBare ? createRequire(file).resolve(specifier) : path.resolve(path.dirname(file), specifier);
+
+  const contents = rewriteRelativeImports(fs.readFileSync(absPath, "utf-8"), path.dirname(absPath), path.dirname(file));
+  return opts?.raw ? contents : stripSolidityHeader(contents);
+}
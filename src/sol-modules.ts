@@ -0,0 +1,107 @@
+/**
+ * `.sol` files imported as modules: `import Lens, { IERC20 } from "./Lens.sol"`.
+ * The bundler plugins compile them into one `InlineContract` export per
+ * contract; type generation writes a `Lens.sol.d.ts` next to each imported
+ * file so those exports are typed.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import type typescript from "typescript";
+
+import { type ContractTypeEntry, generateSolModuleDeclaration } from "./codegen.js";
+import { templateOwner } from "./compile-cache.js";
+import { compileContextFor, type ResolvedConfig } from "./config.js";
+import { compileCached, getConstructorInputs, getContractAbi } from "./solc.js";
+
+type TS = typeof typescript;
+
+/** Ids the bundler plugins load as `.sol` modules */
+export const SOL_MODULE_FILTER = /\.sol$/;
+
+/**
+ * The contract a module's default export is: the one named after the file,
+ * else the last non-abstract `contract` in the source, else the only one.
+ * `declared` are the contracts solc reports for the file itself.
+ */
+export function primaryContract(fileName: string, source: string, declared: string[]): string | undefined {
+  const baseName = path.basename(fileName, ".sol");
+  if (declared.includes(baseName)) return baseName;
+
+  const code = source.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, "");
+  const concrete = [...code.matchAll(/(\babstract\s+)?\bcontract\s+([A-Za-z_$][\w$]*)/g)]
+    .filter(([, abstract, name]) => !abstract && declared.includes(name))
+    .map(([, , name]) => name);
+  if (concrete.length > 0) return concrete[concrete.length - 1];
+
+  return declared.length === 1 ? declared[0] : undefined;
+}
+
+/**
+ * Absolute paths of the `.sol` files `sourceFile` imports or re-exports with
+ * a relative specifier.
+ */
+export function findSolImports(ts: TS, sourceFile: typescript.SourceFile): string[] {
+  const files: string[] = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) && !ts.isExportDeclaration(statement)) continue;
+    const specifier = statement.moduleSpecifier;
+    if (!specifier || !ts.isStringLiteral(specifier)) continue;
+    if (!SOL_MODULE_FILTER.test(specifier.text) || !specifier.text.startsWith(".")) continue;
+    files.push(path.resolve(path.dirname(sourceFile.fileName), specifier.text));
+  }
+  return files;
+}
+
+export interface SolModuleTypes {
+  /** Absolute path of the `.sol` file */
+  file: string;
+  /** Every contract the file declares, for the ABI and constructor maps */
+  entries: ContractTypeEntry[];
+  /** Content of the file's `.sol.d.ts` */
+  declaration: string;
+}
+
+/**
+ * Compile an imported `.sol` file for type generation. Returns undefined when
+ * it can't be read or doesn't compile — the bundler reports those.
+ */
+export function compileSolModuleTypes(file: string, config: ResolvedConfig): SolModuleTypes | undefined {
+  try {
+    const source = fs.readFileSync(file, "utf-8");
+    const { output, sourceName } = compileCached(source, config.solc, {
+      ...compileContextFor(config, file),
+      owner: templateOwner(file, ""),
+    });
+    if (output.errors?.some((e) => e.severity === "error")) return undefined;
+    const declared = Object.keys(output.contracts?.[sourceName] ?? {});
+    const entries = declared.map((contractName) => ({
+      contractName,
+      constructorInputs: getConstructorInputs(output, contractName),
+      abi: (getContractAbi(output, contractName) ?? []) as unknown[],
+    }));
+    const primary = primaryContract(file, source, declared);
+    return { file, entries, declaration: generateSolModuleDeclaration(path.basename(file), declared, primary) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write `types.declaration` to `<file>.d.ts` (e.g. `Lens.sol.d.ts`, which
+ * TypeScript picks up for `./Lens.sol` imports). Returns true if the file
+ * was written.
+ */
+export function writeSolModuleDeclaration(types: SolModuleTypes): boolean {
+  const declarationFile = `${types.file}.d.ts`;
+  let existing: string | undefined;
+  try {
+    existing = fs.readFileSync(declarationFile, "utf-8");
+  } catch {
+    // File doesn't exist yet
+  }
+  if (existing === types.declaration) return false;
+  fs.writeFileSync(declarationFile, types.declaration, "utf-8");
+  return true;
+}
@@ -3,29 +3,231 @@
  * the bundler plugin and the LS / editor plugin.
  */
 
-import solc from "solc";
+import * as fs from "fs";
+
 import type { Abi, Hex } from "viem";
 
+import { CompileCache, type CompileCacheLimits, type CompileCacheStats } from "./compile-cache.js";
+import { loadCompiler, selectCompiler } from "./compilers.js";
+import { type DiskCacheOptions, hashContents, readDiskCache, writeDiskCache } from "./disk-cache.js";
+import { createImportResolver, hasImports, inlineSourceName } from "./imports.js";
 import type { CompilationResult } from "./index.js";
+import { compileNative, DEFAULT_SOLC_BINARY, selectNativeCompiler } from "./native.js";
+
+export const EVM_VERSIONS = [
+  "homestead",
+  "tangerineWhistle",
+  "spuriousDragon",
+  "byzantium",
+  "constantinople",
+  "petersburg",
+  "istanbul",
+  "berlin",
+  "london",
+  "paris",
+  "shanghai",
+  "cancun",
+  "prague",
+  "osaka",
+] as const;
+
+export type EvmVersion = (typeof EVM_VERSIONS)[number];
 
+/**
+ * solc standard-JSON `settings`, minus `outputSelection` (soltag owns that).
+ * See https://docs.soliditylang.org/en/latest/using-the-compiler.html#input-description
+ */
 export interface SolcInputOptions {
   optimizer?: {
+    /** Defaults to `true` */
     enabled?: boolean;
+    /** Defaults to `1` — lenses are typically called once */
     runs?: number;
+    /** Fine-grained optimizer switches; overrides what `enabled` implies */
+    details?: {
+      peephole?: boolean;
+      inliner?: boolean;
+      jumpdestRemover?: boolean;
+      orderLiterals?: boolean;
+      deduplicate?: boolean;
+      cse?: boolean;
+      constantOptimizer?: boolean;
+      simpleCounterForLoopUncheckedIncrement?: boolean;
+      yul?: boolean;
+      yulDetails?: {
+        stackAllocation?: boolean;
+        optimizerSteps?: string;
+      };
+    };
   };
+  /** Target EVM version, e.g. `"paris"` for chains without PUSH0 */
+  evmVersion?: EvmVersion;
+  /** Compile through the Yul IR pipeline */
+  viaIR?: boolean;
+  /** Set `bytecodeHash: "none"` and `appendCBOR: false` for reproducible CREATE2 addresses */
+  metadata?: {
+    appendCBOR?: boolean;
+    useLiteralContent?: boolean;
+    bytecodeHash?: "ipfs" | "bzzr1" | "none";
+  };
+  debug?: {
+    revertStrings?: "default" | "strip" | "debug" | "verboseDebug";
+    debugInfo?: string[];
+  };
+  /** Import remappings in solc's `prefix=target` form. Targets resolve against the project root. */
+  remappings?: string[];
+  /** Addresses of external libraries, keyed by source unit name then library name */
+  libraries?: Record<string, Record<string, string>>;
+  /** Passed through to solc's SMTChecker untouched */
+  modelChecker?: Record<string, unknown>;
+  /** Stop after the given stage; only `"parsing"` is supported by solc */
+  stopAfter?: "parsing";
+  /** EOF version to target; experimental, and only valid with a matching `evmVersion` */
+  eofVersion?: number;
+}
+
+// --- settings validation ---
+
+type SettingSpec = "boolean" | "integer" | "string" | "string[]" | "record" | readonly string[] | SettingsSpec;
+interface SettingsSpec {
+  [key: string]: SettingSpec;
+}
+
+const SETTINGS_SPEC: SettingsSpec = {
+  optimizer: {
+    enabled: "boolean",
+    runs: "integer",
+    details: {
+      peephole: "boolean",
+      inliner: "boolean",
+      jumpdestRemover: "boolean",
+      orderLiterals: "boolean",
+      deduplicate: "boolean",
+      cse: "boolean",
+      constantOptimizer: "boolean",
+      simpleCounterForLoopUncheckedIncrement: "boolean",
+      yul: "boolean",
+      yulDetails: { stackAllocation: "boolean", optimizerSteps: "string" },
+    },
+  },
+  evmVersion: EVM_VERSIONS,
+  viaIR: "boolean",
+  metadata: { appendCBOR: "boolean", useLiteralContent: "boolean", bytecodeHash: ["ipfs", "bzzr1", "none"] },
+  debug: { revertStrings: ["default", "strip", "debug", "verboseDebug"], debugInfo: "string[]" },
+  remappings: "string[]",
+  libraries: "record",
+  modelChecker: "record",
+  stopAfter: ["parsing"],
+  eofVersion: "integer",
+};
+
+function checkSetting(value: unknown, spec: SettingSpec, at: string, problems: string[]): void {
+  if (value === undefined) return;
+  if (Array.isArray(spec)) {
+    if (!spec.includes(value as string)) problems.push(`${at} must be one of ${spec.join(", ")}`);
+  } else if (spec === "boolean" || spec === "string") {
+    if (typeof value !== spec) problems.push(`${at} must be a ${spec}`);
+  } else if (spec === "integer") {
+    if (!Number.isInteger(value) || (value as number) < 0) problems.push(`${at} must be a non-negative integer`);
+  } else if (spec === "string[]") {
+    if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) problems.push(`${at} must be a string[]`);
+  } else if (spec === "record") {
+    if (!isPlainObject(value)) problems.push(`${at} must be an object`);
+  } else if (!isPlainObject(value)) {
+    problems.push(`${at} must be an object`);
+  } else {
+    const nested = spec as SettingsSpec;
+    for (const [key, child] of Object.entries(value)) {
+      const childAt = at ? `${at}.${key}` : key;
+      if (!(key in nested)) problems.push(`unknown setting ${childAt}`);
+      else checkSetting(child, nested[key], childAt, problems);
+    }
+  }
+}
+
+/**
+ * Throw if `options` contains unknown keys or values of the wrong type, so
+ * a typo in a config file fails loudly instead of being ignored by solc.
+ */
+export function validateSolcSettings(options: SolcInputOptions): void {
+  const problems: string[] = [];
+  checkSetting(options, SETTINGS_SPEC, "", problems);
+  if (problems.length > 0) {
+    throw new Error(`soltag: invalid solc settings:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+}
+
+/**
+ * Environment a template compiles in.
+ */
+export interface CompileContext {
+  /** Directory of the `.ts` file that owns the template. Relative imports resolve against it. */
+  basePath: string;
+  /** Project root. Remapping targets and source unit names are relative to it. Defaults to `basePath`. */
+  root?: string;
+  /** Exact compiler version the template must compile with, e.g. `"0.8.28"`. Defaults to the pragma's newest match. */
+  version?: string;
+  /** Local compiler cache directory. Defaults to `$SOLTAG_COMPILERS_DIR` or `~/.soltag/compilers`. */
+  compilers?: string;
+  /** `"solcjs"` (default) compiles in-process with solc-js; `"native"` runs a solc binary */
+  backend?: SolcBackend;
+  /** Native solc binary. Defaults to `solc` on `PATH`. */
+  solcPath?: string;
+  /** Persistent cache shared across processes. Only the in-memory cache is used without it. */
+  cache?: DiskCacheOptions;
+  /** Template being compiled (see {@link templateOwner}); its previous in-memory entry is released */
+  owner?: string;
+}
+
+export type SolcBackend = "solcjs" | "native";
+
+/**
+ * How solc warnings are treated. Errors are never affected.
+ */
+export interface WarningPolicy {
+  /** solc error codes to drop entirely, e.g. `[2018, 5667]` */
+  ignore?: number[];
+  /** Report every remaining warning as an error */
+  asErrors?: boolean;
+  /** Pass the remaining warnings on to the bundler (`this.warn`). Defaults to true */
+  report?: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Layer `override` on top of `base`. Nested objects merge key by key;
+ * arrays and scalars replace. `undefined` values in `override` are skipped.
+ */
+export function mergeSolcSettings(base?: SolcInputOptions, override?: SolcInputOptions): SolcInputOptions {
+  function merge(a: Record<string, unknown>, b: Record<string, unknown>): Record<string, unknown> {
+    const out: Record<string, unknown> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      if (value === undefined) continue;
+      out[key] = isPlainObject(value) && isPlainObject(out[key]) ? merge(out[key], value) : value;
+    }
+    return out;
+  }
+  return merge({ ...base }, { ...override }) as SolcInputOptions;
 }
 
-function buildSolcInput(source: string, options?: SolcInputOptions) {
+function buildSolcInput(source: string, sourceName: string, options?: SolcInputOptions) {
+  const { optimizer, remappings, ...rest } = options ?? {};
   return {
     language: "Solidity" as const,
     sources: {
-      "inline.sol": { content: source },
+      [sourceName]: { content: source },
     },
     settings: {
+      ...rest,
       optimizer: {
-        enabled: options?.optimizer?.enabled ?? true,
-        runs: options?.optimizer?.runs ?? 1,
+        ...optimizer,
+        enabled: optimizer?.enabled ?? true,
+        runs: optimizer?.runs ?? 1,
       },
+      ...(remappings?.length ? { remappings } : {}),
       outputSelection: {
         "*": {
           "*": ["abi", "evm.bytecode.object", "evm.deployedBytecode.object"],
@@ -35,6 +237,21 @@ function buildSolcInput(source: string, options?: SolcInputOptions) {
   };
 }
 
+/**
+ * JSON with object keys sorted, so equivalent settings share a cache key.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
 // --- solc standard output types ---
 
 export interface SolcStandardOutput {
@@ -57,16 +274,19 @@ export interface SolcStandardOutput {
       }
     >
   >;
-  errors?: {
-    severity: string;
-    message: string;
-    formattedMessage: string;
-    sourceLocation?: {
-      file: string;
-      start: number;
-      end: number;
-    };
-  }[];
+  errors?: SolcError[];
+}
+
+export interface SolcError {
+  severity: string;
+  errorCode?: string;
+  message: string;
+  formattedMessage: string;
+  sourceLocation?: {
+    file: string;
+    start: number;
+    end: number;
+  };
 }
 
 export interface SolcAbiParam {
@@ -76,21 +296,123 @@ export interface SolcAbiParam {
   internalType?: string;
 }
 
+export interface SolcCompilation {
+  output: SolcStandardOutput;
+  /** Source unit name solc saw for the template (`sourceLocation.file` for errors in the template itself) */
+  sourceName: string;
+  /** Absolute paths of every file pulled in through `import` */
+  dependencies: string[];
+  /** Full version of the compiler that produced the output, e.g. `"0.8.28+commit.7893614a"` */
+  compilerVersion: string;
+}
+
 // --- compilation cache ---
 
-const cache = new Map<string, SolcStandardOutput>();
+interface CacheEntry {
+  compilation: SolcCompilation;
+  /** Content hash of each imported file at compile time, to detect stale entries */
+  files: Map<string, string>;
+}
+
+const cache = new CompileCache<CacheEntry>();
+
+/**
+ * Set the in-memory cache's limits, evicting entries if they are now exceeded.
+ */
+export function configureCompileCache(limits?: CompileCacheLimits): void {
+  cache.configure(limits);
+}
+
+export function getCompileCacheStats(): CompileCacheStats {
+  return cache.stats();
+}
+
+/**
+ * Drop cached compilations of templates in `fileName`, except the templates
+ * in `keep` (see {@link templateOwner}), unless another template uses them.
+ */
+export function releaseCompiledFile(fileName: string, keep?: Iterable<string>): void {
+  cache.releaseFile(fileName, keep);
+}
+
+function entrySize(entry: CacheEntry): number {
+  return JSON.stringify(entry.compilation.output).length;
+}
+
+function isFresh(entry: CacheEntry): boolean {
+  for (const [filePath, hash] of entry.files) {
+    try {
+      if (hashContents(fs.readFileSync(filePath, "utf-8")) !== hash) return false;
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Compile a template, resolving `import` statements relative to `context`.
+ * The compiler is picked from the local compiler set by the context's pinned
+ * version or the template's pragma.
+ * Successful results are cached by source, settings and compiler — in memory,
+ * and on disk when the context has a cache directory. Templates with imports
+ * also key on their location, and are recompiled when any imported file changes.
+ */
+export function compileCached(source: string, options?: SolcInputOptions, context?: CompileContext): SolcCompilation {
+  if (options) validateSolcSettings(options);
+  const binary = context?.backend === "native" ? (context.solcPath ?? DEFAULT_SOLC_BINARY) : undefined;
+  const compiler = binary
+    ? selectNativeCompiler(source, { binary, version: context?.version })
+    : selectCompiler(source, { version: context?.version, dir: context?.compilers });
+
+  const sourceName = inlineSourceName(source, context);
+  const input = buildSolcInput(source, sourceName, options);
 
-export function compileCached(source: string, options?: SolcInputOptions): SolcStandardOutput {
-  const key = source + JSON.stringify(options ?? {});
-  const existing = cache.get(key);
-  if (existing) return existing;
+  // Key on the settings solc actually sees, so defaults and key order don't split the cache
+  const importing = context !== undefined && hasImports(source);
+  const key =
+    compiler.longVersion +
+    (binary ?? "") +
+    source +
+    stableStringify(input.settings) +
+    (importing ? JSON.stringify([sourceName, context.basePath, context.root]) : "");
+  const owner = context?.owner;
+  const existing = cache.get(key, owner, isFresh);
+  if (existing) return existing.compilation;
 
-  const input = buildSolcInput(source, options);
-  const rawOutput = solc.compile(JSON.stringify(input));
+  const stored = context?.cache ? readDiskCache(context.cache, key) : undefined;
+  if (stored && isFresh(stored)) {
+    cache.set(key, stored, entrySize(stored), owner);
+    return stored.compilation;
+  }
+
+  let rawOutput: string;
+  let files: Map<string, string>;
+  if (binary) {
+    ({ rawOutput, files } = compileNative(binary, input, context));
+  } else {
+    const solc = loadCompiler(compiler);
+    const resolver = context ? createImportResolver(context) : undefined;
+    rawOutput = resolver
+      ? solc.compile(JSON.stringify(input), { import: resolver.callback })
+      : solc.compile(JSON.stringify(input));
+    files = resolver?.files ?? new Map<string, string>();
+  }
   const output = JSON.parse(rawOutput) as SolcStandardOutput;
 
-  cache.set(key, output);
-  return output;
+  const compilation: SolcCompilation = {
+    output,
+    sourceName,
+    dependencies: [...files.keys()],
+    compilerVersion: compiler.longVersion,
+  };
+  const hashes = new Map([...files].map(([filePath, contents]) => [filePath, hashContents(contents)]));
+  // Failed compilations stay out of both caches: a missing import may appear later
+  // without any tracked file changing
+  if (output.errors?.some((e) => e.severity === "error")) return compilation;
+  cache.set(key, { compilation, files: hashes }, rawOutput.length, owner);
+  if (context?.cache) writeDiskCache(context.cache, key, compilation, hashes);
+  return compilation;
 }
 
 // --- ABI helpers ---
@@ -112,17 +434,86 @@ export function getConstructorInputs(output: SolcStandardOutput, contractName: s
   return ctor?.inputs ?? [];
 }
 
+// --- warnings ---
+
+/** `// soltag-ignore 2072, 5667` (or a block comment) anywhere in a template */
+const IGNORE_DIRECTIVE = /\/[/*]\s*soltag-ignore\b([\d \t,]*)/g;
+
+/**
+ * `policy` with the codes of the template's `soltag-ignore` comments added to
+ * `ignore`, so one template can silence a warning without the whole project
+ * doing so.
+ */
+export function warningPolicyFor(source: string, policy?: WarningPolicy): WarningPolicy | undefined {
+  const codes = [...source.matchAll(IGNORE_DIRECTIVE)].flatMap(([, list]) =>
+    list
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number),
+  );
+  if (codes.length === 0) return policy;
+  return { ...policy, ignore: [...(policy?.ignore ?? []), ...codes] };
+}
+
+/**
+ * Apply a {@link WarningPolicy} to solc's diagnostics: drop ignored codes,
+ * then promote the remaining warnings if `asErrors` is set. Templates'
+ * `soltag-ignore` comments are added with {@link warningPolicyFor}.
+ */
+export function applyWarningPolicy(errors: SolcError[], policy?: WarningPolicy): SolcError[] {
+  if (!policy) return errors;
+  const ignored = new Set((policy.ignore ?? []).map(String));
+  return errors
+    .filter((e) => e.severity === "error" || e.errorCode === undefined || !ignored.has(e.errorCode))
+    .map((e) => (policy.asErrors && e.severity === "warning" ? { ...e, severity: "error" } : e));
+}
+
 // --- compile to artifacts ---
 
-export function compileToArtifacts(source: string, options?: SolcInputOptions): CompilationResult {
-  const output = compileCached(source, options);
+/**
+ * Thrown by {@link compileToArtifacts} when solc reports errors. Carries every
+ * diagnostic left after the warning policy, warnings included, with solc's
+ * source locations, so callers can map them back to the template.
+ */
+export class SolidityCompilationError extends Error {
+  readonly diagnostics: SolcError[];
+  /** Source unit name of the template; diagnostics in other units are in imported files */
+  readonly sourceName: string;
+  readonly compilerVersion: string;
 
-  if (output.errors) {
-    const errors = output.errors.filter((e) => e.severity === "error");
-    if (errors.length > 0) {
-      const formatted = errors.map((e) => `error: ${e.message}`).join("\n");
-      throw new Error(`Solidity compilation failed:\n${formatted}`);
-    }
+  constructor(args: { diagnostics: SolcError[]; sourceName: string; compilerVersion: string }) {
+    const formatted = args.diagnostics
+      .filter((e) => e.severity === "error")
+      .map((e) => `error: ${e.message}`)
+      .join("\n");
+    super(`Solidity compilation failed (solc ${args.compilerVersion}):\n${formatted}`);
+    this.name = "SolidityCompilationError";
+    this.diagnostics = args.diagnostics;
+    this.sourceName = args.sourceName;
+    this.compilerVersion = args.compilerVersion;
+  }
+}
+
+export function compileToArtifacts(
+  source: string,
+  options?: SolcInputOptions,
+  context?: CompileContext,
+  warnings?: WarningPolicy,
+): {
+  artifacts: CompilationResult;
+  dependencies: string[];
+  compilerVersion: string;
+  sourceName: string;
+  /** Contracts declared in `source` itself, rather than in files it imports */
+  declared: string[];
+  /** Warnings left after the policy, for the caller to report */
+  warnings: SolcError[];
+} {
+  const { output, dependencies, compilerVersion, sourceName } = compileCached(source, options, context);
+
+  const diagnostics = applyWarningPolicy(output.errors ?? [], warningPolicyFor(source, warnings));
+  if (diagnostics.some((e) => e.severity === "error")) {
+    throw new SolidityCompilationError({ diagnostics, sourceName, compilerVersion });
   }
 
   const result: CompilationResult = {};
@@ -134,10 +525,18 @@ export function compileToArtifacts(source: string, options?: SolcInputOptions):
           abi: contractOutput.abi as Abi,
           deployedBytecode: `0x${contractOutput.evm.deployedBytecode.object}` as Hex,
           bytecode: `0x${contractOutput.evm.bytecode.object}` as Hex,
+          compilerVersion,
         };
       }
     }
   }
 
-  return result;
+  return {
+    artifacts: result,
+    dependencies,
+    compilerVersion,
+    sourceName,
+    declared: Object.keys(output.contracts?.[sourceName] ?? {}),
+    warnings: diagnostics.filter((e) => e.severity === "warning"),
+  };
 }
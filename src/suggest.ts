@@ -0,0 +1,53 @@
+/**
+ * "Did you mean" suggestions for names that don't exist, e.g. a `sol("Lense")`
+ * whose source only defines `Lens`.
+ */
+
+/** Edit distance between `a` and `b` (insertions, deletions and substitutions) */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The candidate closest to `name`, if it's close enough to be a typo: a
+ * different case, or no more than a third of its characters (rounded up) edited.
+ */
+export function suggestName(name: string, candidates: readonly string[]): string | undefined {
+  const lower = name.toLowerCase();
+  const caseOnly = candidates.find((candidate) => candidate.toLowerCase() === lower);
+  if (caseOnly) return caseOnly;
+
+  const maxDistance = Math.ceil(name.length / 3);
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshtein(lower, candidate.toLowerCase());
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Explain that `contractName` isn't among the contracts `available` in a
+ * compilation, suggesting the closest one.
+ */
+export function missingContractMessage(contractName: string, available: readonly string[], compiledWith = ""): string {
+  const suggestion = suggestName(contractName, available);
+  return [
+    `Contract "${contractName}" not found in Solidity source${compiledWith && ` ${compiledWith}`}.`,
+    ...(suggestion ? [`Did you mean "${suggestion}"?`] : []),
+    `Available contracts: ${available.join(", ") || "(none)"}`,
+  ].join(" ");
+}
@@ -0,0 +1,131 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import { extractTemplateSource } from "../src/ast-utils.js";
+import { createFileSystemModuleHost } from "../src/module-host.js";
+
+/** Resolve the template of the first `sol("T")` in `code`, after `declarations` */
+function resolve(declarations: string, template: string, fileName = "test.ts"): string | undefined {
+  const code = `${declarations}\nconst t = sol("T")\`${template}\`;\n`;
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true);
+  let result: string | undefined;
+  function visit(node: ts.Node) {
+    if (ts.isTaggedTemplateExpression(node)) {
+      result = extractTemplateSource(ts, node.template, sourceFile, {
+        modules: createFileSystemModuleHost(ts, { moduleResolution: ts.ModuleResolutionKind.Bundler }),
+      });
+    }
+    ts.forEachChild(node, visit);
+  }
+  visit(sourceFile);
+  return result;
+}
+
+describe("extractTemplateSource — literal interpolations", () => {
+  it("renders numbers, bigints and booleans", () => {
+    expect(resolve("const MAX = 32; const BIG = 0xffn; const ON = true;", "${MAX} ${BIG} ${ON}")).toBe("32 255 true");
+    expect(resolve("const MAX = 1_000;", "${-MAX} ${MAX + 1}")).toBe("-1000 1001");
+    expect(resolve("const WAD = 10n ** 18n;", "${WAD}")).toBeUndefined();
+  });
+
+  it("rejects numbers without a Solidity literal form", () => {
+    expect(resolve("const HUGE = 1e21;", "${HUGE}")).toBeUndefined();
+    expect(resolve("const N = NaN;", "${N}")).toBeUndefined();
+  });
+
+  it("renders enum members", () => {
+    const decl = 'enum Role { None, Admin = 4, User, Label = "label" }';
+    expect(resolve(decl, "${Role.None} ${Role.Admin} ${Role.User} ${Role.Label}")).toBe("0 4 5 label");
+    expect(resolve(decl, "${Role.Missing}")).toBeUndefined();
+  });
+
+  it("renders `as const` object and array members", () => {
+    const decl = "const LIMITS = { markets: 32, fees: [5, 30] } as const;";
+    expect(resolve(decl, '${LIMITS.markets} ${LIMITS.fees[1]} ${LIMITS["markets"]}')).toBe("32 30 32");
+    expect(resolve(decl, "${LIMITS}")).toBeUndefined();
+  });
+
+  it("renders Address constants as checksummed literals", () => {
+    const usdc = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+    expect(resolve(`const USDC: Address = "${usdc}";`, "${USDC}")).toBe("0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48");
+    expect(resolve(`const USDC = "${usdc}" as Address;`, "${USDC}")).toBe("0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48");
+    // Untyped strings splice in verbatim
+    expect(resolve(`const USDC = "${usdc}";`, "${USDC}")).toBe(usdc);
+    expect(resolve('const BAD: Address = "0x1234";', "${BAD}")).toBeUndefined();
+  });
+
+  it("explains values without a literal form in strict mode", () => {
+    const strict = (declarations: string, template: string) => () => {
+      const sourceFile = ts.createSourceFile(
+        "test.ts",
+        `${declarations}\nconst t = sol("T")\`${template}\`;\n`,
+        ts.ScriptTarget.Latest,
+        true,
+      );
+      const tagged = sourceFile.statements.flatMap((statement) =>
+        ts.isVariableStatement(statement) ? statement.declarationList.declarations : [],
+      );
+      const { initializer } = tagged[tagged.length - 1];
+      extractTemplateSource(ts, (initializer as ts.TaggedTemplateExpression).template, sourceFile, { strict: true });
+    };
+
+    expect(strict("const LIMITS = { markets: 32 } as const;", "${LIMITS}")).toThrow(
+      "`LIMITS` is an object, which has no Solidity literal form",
+    );
+    expect(strict('const BAD: Address = "0x1234";', "${BAD}")).toThrow('"0x1234" is typed `Address`');
+    expect(strict("enum Role { Admin }", "${Role.User}")).toThrow("enum `Role` has no resolvable member `User`");
+  });
+
+  it("resolves enums and constants imported from other modules", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-literals-"));
+    try {
+      fs.writeFileSync(path.join(dir, "roles.ts"), "export enum Role { Admin = 1, User }\nexport const MAX = 8;\n");
+      fs.writeFileSync(path.join(dir, "index.ts"), 'export * as Roles from "./roles";\n');
+
+      const source = resolve(
+        'import { Roles } from "./index";\nimport { MAX } from "./roles";',
+        "${Roles.Role.User} ${MAX}",
+        path.join(dir, "lens.ts"),
+      );
+      expect(source).toBe("2 8");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("type-checks every literal kind as an interpolation", () => {
+    const fileName = path.join(import.meta.dirname, "literal-kinds.ts");
+    const code = `import { sol } from "../src/index.js";
+import type { Address } from "viem";
+
+enum Role { Admin = 1 }
+enum Label { Name = "name" }
+const MAX_MARKETS = 32;
+const WAD = 1_000_000_000_000_000_000n;
+const ENABLED = true;
+const USDC: Address = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+export const t = sol("T")\`\${MAX_MARKETS} \${WAD} \${ENABLED} \${Role.Admin} \${Label.Name} \${USDC} \${"x"}\`;
+`;
+    const options = {
+      strict: true,
+      noEmit: true,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      target: ts.ScriptTarget.ES2022,
+    };
+    const host = ts.createCompilerHost(options);
+    const { getSourceFile, fileExists } = host;
+    host.fileExists = (file) => file === fileName || fileExists(file);
+    host.getSourceFile = (file, ...rest) =>
+      file === fileName ? ts.createSourceFile(file, code, ts.ScriptTarget.ES2022) : getSourceFile(file, ...rest);
+
+    const program = ts.createProgram([fileName], options, host);
+    const diagnostics = ts.getPreEmitDiagnostics(program, program.getSourceFile(fileName));
+    expect(diagnostics.map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"))).toEqual([]);
+  });
+});
@@ -7,8 +7,10 @@ import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
 import { extractTemplateSource, resolveStringExpression, SolFileError, stripSolidityHeader } from "../src/ast-utils.js";
 
+/** Parse `code` with `sol` and `solFile` imported — appended, so offsets into `code` stay valid */
 function createSourceFile(code: string, fileName = "test.ts"): ts.SourceFile {
-  return ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true);
+  const imports = 'import { sol, solFile } from "soltag";';
+  return ts.createSourceFile(fileName, `${code}\n${imports}\n`, ts.ScriptTarget.Latest, true);
 }
 
 function findFirstCallTo(name: string, sourceFile: ts.SourceFile): ts.CallExpression | undefined {
@@ -0,0 +1,84 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { transformSync } from "@babel/core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import soltagBabel from "../../src/bundler/babel.js";
+
+const LENS = `import { sol, solFile } from "soltag";
+
+export const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  \${solFile("./IThing.sol")}
+  contract Lens { function read(IThing thing) external view returns (uint256) { return thing.x(); } }
+\`;
+`;
+
+const ITHING = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+interface IThing { function x() external view returns (uint256); }
+`;
+
+describe("babel plugin", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "soltag-babel-")));
+    fs.writeFileSync(path.join(tmpDir, "IThing.sol"), ITHING);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function transform(code: string, name = "lens.ts") {
+    return transformSync(code, {
+      filename: path.join(tmpDir, name),
+      cwd: tmpDir,
+      configFile: false,
+      babelrc: false,
+      parserOpts: { plugins: ["typescript"] },
+      plugins: [[soltagBabel, { root: tmpDir }]],
+    });
+  }
+
+  it("replaces templates with compiled contracts", () => {
+    const result = transform(LENS);
+
+    expect(result?.code).toMatch(/^import \{ InlineContract as _InlineContract \} from "soltag";/);
+    expect(result?.code).toContain('export const lens = new _InlineContract("Lens", {');
+    expect(result?.code).not.toContain("pragma solidity");
+    expect(result?.code).not.toContain("IThing:");
+  });
+
+  it("leaves files without templates alone", () => {
+    expect(transform("export const x: number = 1;\n", "plain.ts")?.code).toBe("export const x: number = 1;");
+  });
+
+  it("reports the files templates read as external dependencies", () => {
+    transform(LENS);
+    const dependency = path.join(tmpDir, "IThing.sol");
+    // Recorded by the first transform, reported from the plugin instance Babel creates for the next
+    expect(transform(LENS)?.externalDependencies).toContain(dependency);
+    expect(transform("export const x = 1;\n", "other.ts")?.externalDependencies).toContain(dependency);
+  });
+
+  it("stops reporting files a module no longer reads", () => {
+    transform(LENS, "reads.ts");
+    const dependency = path.join(tmpDir, "IThing.sol");
+    expect(transform("export const x = 1;\n", "other.ts")?.externalDependencies).toContain(dependency);
+
+    transform("export const x = 1;\n", "reads.ts");
+    expect(transform("export const x = 1;\n", "other.ts")?.externalDependencies).not.toContain(dependency);
+  });
+
+  it("emits solc warnings as process warnings", () => {
+    const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => {});
+    transform(LENS.replace("external view returns", "external returns"), "warn.ts");
+    expect(emitWarning).toHaveBeenCalledWith(expect.stringMatching(/warn\.ts:\d+:\d+ — warning 2018/), "SoltagWarning");
+  });
+});
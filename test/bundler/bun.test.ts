@@ -0,0 +1,108 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import soltag from "../../src/bundler/bun.js";
+
+type OnLoad = (args: { path: string; loader?: string }) => Promise<{ contents: string; loader: string } | undefined>;
+
+/** Run the plugin's setup against a stub builder (`Bun.build`'s, or the runtime's), collecting its onLoad handlers */
+function setup(options?: Parameters<typeof soltag>[0], { runtime = false } = {}) {
+  const handlers: { filter: RegExp; callback: OnLoad }[] = [];
+  soltag(options).setup({
+    config: runtime ? undefined : {},
+    onLoad(constraints, callback) {
+      handlers.push({ filter: constraints.filter, callback: callback as OnLoad });
+    },
+  });
+  return (file: string, loader?: string) => {
+    const handler = handlers.find(({ filter }) => filter.test(file));
+    return handler?.callback({ path: file, loader });
+  };
+}
+
+const LENS = `import { sol } from "soltag";
+
+export const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  contract Lens { function a() external pure returns (uint256) { return 1; } }
+\`;
+`;
+
+describe("bun plugin", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-bun-"));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("compiles templates in TypeScript files", async () => {
+    const load = setup({ root: tmpDir });
+    const file = path.join(tmpDir, "lens.ts");
+    fs.writeFileSync(file, LENS);
+
+    const result = await load(file, "ts");
+    expect(result?.loader).toBe("ts");
+    expect(result?.contents).toContain('new __InlineContract("Lens"');
+    expect(result?.contents).not.toContain("pragma solidity");
+
+    const tsx = path.join(tmpDir, "lens.tsx");
+    fs.writeFileSync(tsx, LENS);
+    expect((await load(tsx))?.loader).toBe("tsx");
+  });
+
+  it("leaves other files to Bun's loader", async () => {
+    const load = setup({ root: tmpDir });
+    const plain = path.join(tmpDir, "plain.ts");
+    fs.writeFileSync(plain, "export const x: number = 1;\n");
+    expect(await load(plain, "ts")).toBeUndefined();
+    expect(await load(path.join(tmpDir, "plain.js"))).toBeUndefined();
+
+    // Excluded files aren't even read
+    const readFile = vi.spyOn(fs.promises, "readFile");
+    expect(await load(path.join(tmpDir, "node_modules", "missing.ts"), "ts")).toBeUndefined();
+    expect(readFile).not.toHaveBeenCalled();
+  });
+
+  it("returns other files as they are at runtime", async () => {
+    const load = setup({ root: tmpDir }, { runtime: true });
+    const plain = path.join(tmpDir, "plain.ts");
+    fs.writeFileSync(plain, "export const x: number = 1;\n");
+    expect(await load(plain, "ts")).toEqual({ contents: "export const x: number = 1;\n", loader: "ts" });
+
+    fs.mkdirSync(path.join(tmpDir, "node_modules"));
+    const dependency = path.join(tmpDir, "node_modules", "lens.ts");
+    fs.writeFileSync(dependency, LENS);
+    expect(await load(dependency)).toEqual({ contents: LENS, loader: "ts" });
+  });
+
+  it("emits solc warnings as process warnings", async () => {
+    const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => {});
+    const file = path.join(tmpDir, "warn.ts");
+    fs.writeFileSync(file, LENS.replace("external pure returns", "external view returns"));
+    await setup({ root: tmpDir })(file, "ts");
+    expect(emitWarning).toHaveBeenCalledWith(expect.stringMatching(/warn\.ts:\d+:\d+ — warning 2018/), "SoltagWarning");
+  });
+
+  it("compiles .sol modules", async () => {
+    const load = setup({ root: tmpDir });
+    const file = path.join(tmpDir, "Counter.sol");
+    fs.writeFileSync(
+      file,
+      "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ncontract Counter { uint256 public count; }\n",
+    );
+
+    const result = await load(file);
+    expect(result?.loader).toBe("js");
+    expect(result?.contents).toContain('export const Counter = new __InlineContract("Counter"');
+    expect(result?.contents).toContain("export default Counter;");
+  });
+});
@@ -0,0 +1,160 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { build } from "tsup";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SoltagCompileError } from "../../src/bundler/errors.js";
+import { CompilePool } from "../../src/bundler/pool.js";
+import { transformSolTemplates, transformSolTemplatesAsync } from "../../src/bundler/unplugin.js";
+import { SolidityCompilationError } from "../../src/solc.js";
+
+/** Answers like the real worker after a short delay, reporting which thread did the work */
+const FAKE_WORKER = `
+const { parentPort, threadId } = require("worker_threads");
+parentPort.on("message", ({ id, request }) => {
+  setTimeout(() => {
+    if (request.source === "fail") parentPort.postMessage({ id, error: "Solidity compilation failed:\\nerror: nope" });
+    else if (request.source === "solc-error") {
+      const diagnostics = [{ severity: "error", message: "nope", formattedMessage: "nope" }];
+      parentPort.postMessage({ id, error: "nope", compilation: { diagnostics, sourceName: "inline.sol", compilerVersion: "0.8.33" } });
+    }
+    else parentPort.postMessage({ id, result: { artifacts: { threadId, source: request.source }, dependencies: [] } });
+  }, 50);
+});
+`;
+
+const LENS = `
+import { sol } from 'soltag';
+const a = sol("A")\`pragma solidity ^0.8.0; contract A { function f() external pure returns (uint256) { return 1; } }\`;
+const b = sol("B")\`pragma solidity ^0.8.0; contract B { function g() external pure returns (uint256) { return 2; } }\`;
+`;
+
+describe("CompilePool", () => {
+  let tmpDir: string;
+  let workerFile: string;
+  let pool: CompilePool | undefined;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-pool-"));
+    workerFile = path.join(tmpDir, "worker.cjs");
+    fs.writeFileSync(workerFile, FAKE_WORKER);
+  });
+
+  afterEach(async () => {
+    await pool?.terminate();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("spreads requests over at most `size` workers", async () => {
+    pool = new CompilePool(2, workerFile);
+    const results = await Promise.all(["a", "b", "c", "d"].map((source) => pool!.compile({ source })));
+
+    expect(results.map((r) => r.artifacts.source)).toEqual(["a", "b", "c", "d"]);
+    expect(new Set(results.map((r) => r.artifacts.threadId)).size).toBe(2);
+  });
+
+  it("shares one compilation between identical in-flight requests", async () => {
+    pool = new CompilePool(2, workerFile);
+    const first = pool.compile({ source: "a", context: { basePath: "/x" } });
+    // Import-free templates in other directories are identical too
+    const second = pool.compile({ source: "a", context: { basePath: "/y" } });
+    expect(second).toBe(first);
+    await first;
+
+    const third = pool.compile({ source: "a" });
+    expect(third).not.toBe(first);
+    await third;
+  });
+
+  it("keeps templates with imports apart by directory", async () => {
+    pool = new CompilePool(2, workerFile);
+    const source = 'import "./B.sol";';
+    const x = pool.compile({ source, context: { basePath: "/x" } });
+    const y = pool.compile({ source, context: { basePath: "/y" } });
+    expect(y).not.toBe(x);
+    await Promise.all([x, y]);
+  });
+
+  it("rejects with the worker's error", async () => {
+    pool = new CompilePool(1, workerFile);
+    await expect(pool.compile({ source: "fail" })).rejects.toThrow(/Solidity compilation failed/);
+    // The worker is still usable afterwards
+    await expect(pool.compile({ source: "ok" })).resolves.toMatchObject({ artifacts: { source: "ok" } });
+  });
+
+  it("rebuilds solc failures as SolidityCompilationError", async () => {
+    pool = new CompilePool(1, workerFile);
+    const error = await pool.compile({ source: "solc-error" }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(SolidityCompilationError);
+    expect(error).toMatchObject({ sourceName: "inline.sol", diagnostics: [{ severity: "error", message: "nope" }] });
+  });
+
+  it("compiles in-process without a worker file, with a warning", async () => {
+    const emitWarning = vi.spyOn(process, "emitWarning").mockImplementation(() => {});
+    pool = new CompilePool(4, undefined);
+    expect(emitWarning).toHaveBeenCalledWith(expect.stringMatching(/compiling on the main thread/), "SoltagWarning");
+    emitWarning.mockRestore();
+
+    const request = { source: "pragma solidity ^0.8.0; contract A {}" };
+    const first = pool.compile(request);
+    expect(pool.compile(request)).toBe(first);
+    expect(Object.keys((await first).artifacts)).toEqual(["A"]);
+  });
+});
+
+describe("CompilePool with the real worker", () => {
+  // Built next to the package's own node_modules, so solc and the other externals resolve
+  const outDir = path.join(import.meta.dirname, "..", "..", "node_modules", ".cache", "soltag-pool-test");
+  let pool: CompilePool;
+
+  beforeAll(async () => {
+    await build({
+      entry: { worker: "src/bundler/worker.ts" },
+      outDir,
+      format: ["esm"],
+      platform: "node",
+      config: false,
+      silent: true,
+    });
+    pool = new CompilePool(1, path.join(outDir, "worker.js"));
+  }, 60_000);
+
+  afterAll(async () => {
+    await pool.terminate();
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("compiles on the worker thread", async () => {
+    const { artifacts, compilerVersion } = await pool.compile({
+      source: "pragma solidity ^0.8.0; contract A { function f() external pure returns (uint256) { return 1; } }",
+    });
+    expect(artifacts.A.abi).toEqual([expect.objectContaining({ name: "f", type: "function" })]);
+    expect(compilerVersion).toMatch(/^0\.8\./);
+  });
+
+  it("rebuilds solc failures as located compile errors", async () => {
+    const broken = LENS.replace("return 2;", "return ;");
+    const error = await transformSolTemplatesAsync(broken, "/src/lens.ts", pool).catch((err) => err);
+
+    expect(error).toBeInstanceOf(SoltagCompileError);
+    expect(error.loc).toEqual({ file: "/src/lens.ts", line: 4, column: expect.any(Number) });
+    expect(error.message).toMatch(/sol\("B"\) failed to compile/);
+  });
+});
+
+describe("transformSolTemplatesAsync", () => {
+  it("produces the same output as the synchronous transform", async () => {
+    const pool = new CompilePool(0);
+    const asyncResult = await transformSolTemplatesAsync(LENS, "test.ts", pool);
+    expect(asyncResult).toEqual(transformSolTemplates(LENS, "test.ts"));
+  });
+
+  it("fails the transform when any template fails", async () => {
+    const pool = new CompilePool(0);
+    const broken = LENS.replace("return 2;", "return ;");
+    await expect(transformSolTemplatesAsync(broken, "test.ts", pool)).rejects.toThrow(/sol\("B"\) failed to compile/);
+  });
+});
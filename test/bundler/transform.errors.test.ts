@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+
+import { codeFrame, SoltagCompileError } from "../../src/bundler/errors.js";
+import soltagLoader from "../../src/bundler/loader.js";
+import { CompilePool } from "../../src/bundler/pool.js";
+import { transformSolTemplates, transformSolTemplatesAsync, unplugin } from "../../src/bundler/unplugin.js";
+
+const BROKEN = `import { sol } from "soltag";
+
+const UNIT = "uint256";
+const lens = sol("Lens")\`
+  pragma solidity ^0.8.24;
+  contract Lens {
+    function f() external pure returns (\${UNIT}) {
+      return missing;
+    }
+  }
+\`;
+`;
+
+describe("unplugin transform — compile errors", () => {
+  it("locates solc errors in the TypeScript file", () => {
+    let error: unknown;
+    try {
+      transformSolTemplates(BROKEN, "/src/lens.ts");
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(SoltagCompileError);
+    const { loc, frame, diagnostics, contractName } = error as SoltagCompileError;
+    expect(contractName).toBe("Lens");
+    expect(loc).toEqual({ file: "/src/lens.ts", line: 8, column: 13 });
+    expect(diagnostics).toEqual([
+      // Warnings are kept too; the missing SPDX license points at the whole template
+      expect.objectContaining({ severity: "warning", code: "1878", line: 4, column: 24 }),
+      expect.objectContaining({ severity: "error", code: "7576", line: 8, column: 13 }),
+    ]);
+    expect(frame).toBe(
+      [
+        "   6 |   contract Lens {",
+        "   7 |     function f() external pure returns (${UNIT}) {",
+        ">  8 |       return missing;",
+        "     |              ^^^^^^^",
+        "   9 |     }",
+        "  10 |   }",
+      ].join("\n"),
+    );
+    expect((error as Error).message).toMatch(
+      /^sol\("Lens"\) failed to compile \(solc [\d.]+\):\n\/src\/lens\.ts:8:14 — error 7576: Undeclared identifier/,
+    );
+  });
+
+  it("reports through the bundler's error API", async () => {
+    const plugin = unplugin.raw({ workers: 0 }, { framework: "esbuild" }) as {
+      transform: { handler: (this: unknown, code: string, id: string) => Promise<unknown> };
+    };
+    const errors: unknown[] = [];
+    const result = await plugin.transform.handler.call(
+      { addWatchFile() {}, error: (err: unknown) => errors.push(err) },
+      BROKEN,
+      "/src/lens.ts",
+    );
+
+    expect(result).toBeUndefined();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ id: "/src/lens.ts", loc: { file: "/src/lens.ts", line: 8, column: 13 } });
+  });
+
+  it("passes the error to the loader callback", () => {
+    let error: Error | null = null;
+    soltagLoader.call(
+      {
+        resourcePath: "/src/lens.ts",
+        addDependency() {},
+        callback: (err) => {
+          error = err;
+        },
+        emitWarning() {},
+        getOptions: () => ({}),
+      },
+      BROKEN,
+    );
+
+    expect(error).toBeInstanceOf(SoltagCompileError);
+  });
+});
+
+describe("unplugin transform — missing contracts", () => {
+  const LENSE = `import { sol } from "soltag";
+
+const lens = sol("Lense")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  interface IERC20 {}
+  contract Lens {}
+\`;
+`;
+
+  it("fails with the closest contract name", () => {
+    expect(() => transformSolTemplates(LENSE, "/src/lens.ts")).toThrow(
+      /\/src\/lens\.ts:3:18 — error: Contract "Lense" not found in Solidity source\. Did you mean "Lens"\? Available contracts: IERC20, Lens/,
+    );
+  });
+
+  it("fails the async transform too, pointing at the name", async () => {
+    const pool = new CompilePool(0);
+    const error = await transformSolTemplatesAsync(LENSE, "/src/lens.ts", pool).catch((err) => err);
+
+    expect(error).toBeInstanceOf(SoltagCompileError);
+    expect(error.loc).toEqual({ file: "/src/lens.ts", line: 3, column: 17 });
+    expect(error.frame).toContain('> 3 | const lens = sol("Lense")`\n    |                  ^^^^^^^');
+  });
+
+  it("doesn't guess for unrelated names", () => {
+    expect(() => transformSolTemplates(LENSE.replace('"Lense"', '"Vault"'), "/src/lens.ts")).toThrow(
+      /Contract "Vault" not found in Solidity source\. Available contracts/,
+    );
+  });
+});
+
+describe("codeFrame", () => {
+  it("underlines to the end of the first line of a multi-line span", () => {
+    const frame = codeFrame("a\nbb cc\ndd", { line: 1, character: 3 }, { line: 2, character: 1 }, 0);
+    expect(frame).toBe(["> 2 | bb cc", "    |    ^^"].join("\n"));
+  });
+});
@@ -0,0 +1,135 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { transformSolTemplates } from "../../src/bundler/unplugin.js";
+
+const IERC20 =
+  "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ninterface IERC20 { function balanceOf(address) external view returns (uint256); }\n";
+
+function lensCode(importLine: string): string {
+  return `
+import { sol } from 'soltag';
+const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  ${importLine}
+  contract Lens {
+    function getBalance(address token, address user) external view returns (uint256) {
+      return IERC20(token).balanceOf(user);
+    }
+  }
+\`;
+`;
+}
+
+describe("unplugin transform — imports", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "soltag-bundler-imports-")));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function write(rel: string, contents: string): string {
+    const p = path.join(tmpDir, rel);
+    fs.mkdirSync(path.dirname(p), { recursive: true });
+    fs.writeFileSync(p, contents, "utf-8");
+    return p;
+  }
+
+  it("resolves a relative import against the .ts file's directory", () => {
+    const dep = write("contracts/IERC20.sol", IERC20);
+    const tsFile = path.join(tmpDir, "src", "lens.ts");
+
+    const result = transformSolTemplates(lensCode('import "../contracts/IERC20.sol";'), tsFile, { root: tmpDir });
+    expect(result).toBeDefined();
+    expect(result!.code).toContain('new __InlineContract("Lens",');
+    expect(result!.dependencies).toEqual([dep]);
+  });
+
+  it("resolves bare specifiers through node_modules", () => {
+    const dep = write("node_modules/@oz/contracts/token/IERC20.sol", IERC20);
+    write("node_modules/@oz/contracts/package.json", JSON.stringify({ name: "@oz/contracts", version: "0.0.0" }));
+    const tsFile = path.join(tmpDir, "src", "lens.ts");
+
+    const result = transformSolTemplates(lensCode('import "@oz/contracts/token/IERC20.sol";'), tsFile, {
+      root: tmpDir,
+    });
+    expect(result).toBeDefined();
+    expect(result!.dependencies).toEqual([dep]);
+  });
+
+  it("applies remappings relative to the project root", () => {
+    const dep = write("lib/oz/src/IERC20.sol", IERC20);
+    const tsFile = path.join(tmpDir, "src", "lens.ts");
+
+    const result = transformSolTemplates(lensCode('import "@oz/IERC20.sol";'), tsFile, {
+      root: tmpDir,
+      solc: { remappings: ["@oz/=lib/oz/src/"] },
+    });
+    expect(result).toBeDefined();
+    expect(result!.dependencies).toEqual([dep]);
+  });
+
+  it("follows relative imports inside a solFile target", () => {
+    write("contracts/IERC20.sol", IERC20);
+    write("contracts/Helpers.sol", 'import "./IERC20.sol";\nlibrary Helpers {}\n');
+    const tsFile = path.join(tmpDir, "src", "lens.ts");
+    const code = `
+import { sol, solFile } from 'soltag';
+const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  \${solFile("../contracts/Helpers.sol")}
+  contract Lens {
+    function getBalance(address token, address user) external view returns (uint256) {
+      return IERC20(token).balanceOf(user);
+    }
+  }
+\`;
+`;
+
+    const result = transformSolTemplates(code, tsFile, { root: tmpDir });
+    expect(result).toBeDefined();
+    expect(result!.code).toContain('new __InlineContract("Lens",');
+  });
+
+  it("recompiles when an imported file changes", () => {
+    const dep = write("IERC20.sol", IERC20);
+    const tsFile = path.join(tmpDir, "lens.ts");
+    const code = lensCode('import "./IERC20.sol";');
+
+    const first = transformSolTemplates(code, tsFile, { root: tmpDir });
+
+    fs.writeFileSync(
+      dep,
+      IERC20.replace("interface IERC20 {", "interface IERC20 { function decimals() external view returns (uint8);"),
+      "utf-8",
+    );
+    // Lens itself doesn't change, but its metadata hash covers the imported source
+    const second = transformSolTemplates(code, tsFile, { root: tmpDir });
+    expect(second!.code).not.toBe(first!.code);
+  });
+
+  it("fails the build when an import cannot be found", () => {
+    const tsFile = path.join(tmpDir, "lens.ts");
+    expect(() => transformSolTemplates(lensCode('import "./Missing.sol";'), tsFile, { root: tmpDir })).toThrow(
+      /sol\("Lens"\) failed to compile .*\n.*lens\.ts:\d+:\d+ — error 6275: .*Missing\.sol/,
+    );
+  });
+
+  it("compiles once a missing import is created", () => {
+    const tsFile = path.join(tmpDir, "lens.ts");
+    const code = lensCode('import "./IERC20.sol";');
+    expect(() => transformSolTemplates(code, tsFile, { root: tmpDir })).toThrow(/error 6275/);
+
+    write("IERC20.sol", IERC20);
+    expect(transformSolTemplates(code, tsFile, { root: tmpDir })!.code).toContain('new __InlineContract("Lens",');
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { transformSolTemplates } from "../../src/bundler/unplugin.js";
+
+const IERC20 = "interface IERC20 { function balanceOf(address) external view returns (uint256); }";
+
+const lens = (imports: string, fragment: string) => `
+import { sol } from 'soltag';
+${imports}
+const lens = sol("Lens")\`
+  pragma solidity ^0.8.24;
+  \${${fragment}}
+  contract Lens {
+    function getBalance(address token, address user) external view returns (uint256) {
+      return IERC20(token).balanceOf(user);
+    }
+  }
+\`;
+`;
+
+describe("unplugin transform — imported constants", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-bundler-modules-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function write(name: string, contents: string): string {
+    const file = path.join(tmpDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, contents, "utf-8");
+    return file;
+  }
+
+  function transform(code: string) {
+    return transformSolTemplates(code, path.join(tmpDir, "lens.ts"), { root: tmpDir, cache: false });
+  }
+
+  it("resolves a named import and reports the module as a dependency", () => {
+    const fragments = write("fragments.ts", `export const IERC20 = \`${IERC20}\`;\n`);
+    const result = transform(lens('import { IERC20 } from "./fragments";', "IERC20"));
+
+    expect(result!.code).toContain('new __InlineContract("Lens",');
+    expect(result!.dependencies).toContain(fragments);
+  });
+
+  it("follows renamed imports, `.js` specifiers and re-exports", () => {
+    write("fragments/erc20.ts", `const TOKEN = \`${IERC20}\`;\nexport { TOKEN as IERC20 };\n`);
+    write("fragments/index.ts", 'export * from "./erc20.js";\n');
+    const barrel = write("barrel.ts", 'export { IERC20 as Token } from "./fragments/index.js";\n');
+    const result = transform(lens('import { Token as Erc20 } from "./barrel.js";', "Erc20"));
+
+    expect(result!.code).toContain('new __InlineContract("Lens",');
+    expect(result!.dependencies).toEqual(
+      expect.arrayContaining([
+        barrel,
+        path.join(tmpDir, "fragments/index.ts"),
+        path.join(tmpDir, "fragments/erc20.ts"),
+      ]),
+    );
+  });
+
+  it("resolves default and namespace imports", () => {
+    write("erc20.ts", `export default \`${IERC20}\`;\n`);
+    write("fragments.ts", `export const IERC20 = \`${IERC20}\`;\n`);
+
+    expect(transform(lens('import Erc20 from "./erc20";', "Erc20"))).toBeDefined();
+    expect(transform(lens('import * as Fragments from "./fragments";', "Fragments.IERC20"))).toBeDefined();
+  });
+
+  it("resolves a fragment's own imports and solFile paths from its module", () => {
+    write("sol/IERC20.sol", `pragma solidity ^0.8.0;\n${IERC20}\n`);
+    write("sol/fragments.ts", 'import { solFile } from "soltag";\nexport const IERC20 = solFile("./IERC20.sol");\n');
+    const result = transform(lens('import { IERC20 } from "./sol/fragments";', "IERC20"));
+
+    expect(result!.dependencies).toContain(path.join(tmpDir, "sol/IERC20.sol"));
+  });
+
+  it("picks up edits to the imported module", () => {
+    const fragments = write("fragments.ts", `export const IERC20 = \`${IERC20}\`;\n`);
+    const code = lens('import { IERC20 } from "./fragments";', "IERC20");
+    const before = transform(code)!.code;
+
+    fs.writeFileSync(
+      fragments,
+      `export const IERC20 = \`${IERC20.replace("}", "function totalSupply() external view returns (uint256); }")}\`;\n`,
+    );
+    // Parsed modules are reused until their mtime changes
+    const later = new Date(Date.now() + 2000);
+    fs.utimesSync(fragments, later, later);
+
+    expect(transform(code)!.code).not.toBe(before);
+  });
+
+  it("explains imports that don't resolve to a constant", () => {
+    write("fragments.ts", "export let IERC20 = 'interface IERC20 {}';\n");
+
+    expect(() => transform(lens('import { IERC20 } from "./fragments";', "IERC20"))).toThrow(
+      '`IERC20` isn\'t bound to a `const` or enum in "./fragments"',
+    );
+    expect(() => transform(lens('import { IERC20 } from "./missing";', "IERC20"))).toThrow(
+      'cannot find module "./missing"',
+    );
+  });
+
+  it("points at the failing expression in the imported module", () => {
+    const fragments = write("fragments.ts", "export const IERC20 = load('IERC20');\n");
+
+    expect(() => transform(lens('import { IERC20 } from "./fragments";', "IERC20"))).toThrow(
+      `\`load(...)\` is a function call, evaluated at runtime (${fragments}:1:23)`,
+    );
+  });
+
+  it("stops at circular re-exports", () => {
+    write("a.ts", 'export * from "./b";\n');
+    write("b.ts", 'export * from "./a";\n');
+
+    expect(() => transform(lens('import { IERC20 } from "./a";', "IERC20"))).toThrow(/cannot resolve `\$\{IERC20\}`/);
+  });
+});
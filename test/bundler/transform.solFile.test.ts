@@ -4,7 +4,8 @@ import * as path from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
-import { transformSolTemplates } from "../../src/bundler/unplugin.js";
+import soltagLoader from "../../src/bundler/loader.js";
+import { transformSolTemplates, unplugin } from "../../src/bundler/unplugin.js";
 
 describe("unplugin transform — solFile", () => {
   let tmpDir: string;
@@ -88,6 +89,7 @@ const lens = sol("Lens")\`
   it("rethrows SolFileError as a build error with file:line context", () => {
     const tsFile = path.join(tmpDir, "lens.ts");
     const code = `
+import { sol, solFile } from 'soltag';
 const lens = sol("Lens")\`
   pragma solidity ^0.8.24;
   \${solFile("./does-not-exist.sol")}
@@ -97,4 +99,70 @@ const lens = sol("Lens")\`
 
     expect(() => transformSolTemplates(code, tsFile)).toThrow(/lens\.ts:\d+:\d+/);
   });
+
+  describe("watch dependencies", () => {
+    const IERC20 =
+      "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ninterface IERC20 { function balanceOf(address) external view returns (uint256); }\n";
+    const LENS = `
+import { sol, solFile } from 'soltag';
+const lens = sol("Lens")\`
+  pragma solidity ^0.8.24;
+  \${solFile("./IERC20.sol")}
+  contract Lens {
+    function getBalance(address token, address user) external view returns (uint256) {
+      return IERC20(token).balanceOf(user);
+    }
+  }
+\`;
+`;
+
+    it("reports solFile targets as dependencies", () => {
+      const solPath = path.join(tmpDir, "IERC20.sol");
+      fs.writeFileSync(solPath, IERC20, "utf-8");
+
+      const result = transformSolTemplates(LENS, path.join(tmpDir, "lens.ts"));
+      expect(result!.dependencies).toEqual([solPath]);
+    });
+
+    it("watches solFile targets from the plugin and recompiles after an edit", async () => {
+      const solPath = path.join(tmpDir, "IERC20.sol");
+      fs.writeFileSync(solPath, IERC20, "utf-8");
+      const plugin = unplugin.raw({ workers: 0, cache: false }, { framework: "rollup" }) as {
+        transform: { handler: (this: unknown, code: string, id: string) => Promise<{ code: string }> };
+      };
+      const watched: string[] = [];
+      const ctx = { addWatchFile: (file: string) => watched.push(file), warn() {} };
+
+      const first = await plugin.transform.handler.call(ctx, LENS, path.join(tmpDir, "lens.ts"));
+      expect(watched).toEqual([solPath]);
+
+      fs.writeFileSync(solPath, IERC20.replace("interface IERC20 {", "interface IERC20 { function x() external;"));
+      const second = await plugin.transform.handler.call(ctx, LENS, path.join(tmpDir, "lens.ts"));
+      expect(second.code).not.toBe(first.code);
+    });
+
+    it("adds solFile targets as webpack loader dependencies", () => {
+      const solPath = path.join(tmpDir, "IERC20.sol");
+      fs.writeFileSync(solPath, IERC20, "utf-8");
+      const added: string[] = [];
+      let output: string | undefined;
+
+      soltagLoader.call(
+        {
+          resourcePath: path.join(tmpDir, "lens.ts"),
+          addDependency: (file) => added.push(file),
+          callback: (err, content) => {
+            if (err) throw err;
+            output = content;
+          },
+          emitWarning() {},
+          getOptions: () => ({}),
+        },
+        LENS,
+      );
+
+      expect(added).toEqual([solPath]);
+      expect(output).toContain('new __InlineContract("Lens",');
+    });
+  });
 });
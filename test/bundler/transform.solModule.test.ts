@@ -0,0 +1,110 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { SoltagCompileError } from "../../src/bundler/errors.js";
+import soltagLoader from "../../src/bundler/loader.js";
+import { transformSolModule, unplugin } from "../../src/bundler/unplugin.js";
+
+const IERC20 = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+interface IERC20 { function balanceOf(address) external view returns (uint256); }
+`;
+
+const LENS = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+import "./IERC20.sol";
+
+library Math { function max(uint256 a, uint256 b) internal pure returns (uint256) { return a > b ? a : b; } }
+
+contract Lens {
+  function getBalance(address token, address user) external view returns (uint256) {
+    return Math.max(IERC20(token).balanceOf(user), 0);
+  }
+}
+`;
+
+describe("unplugin transform — .sol modules", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-bundler-solmodule-"));
+    fs.writeFileSync(path.join(tmpDir, "IERC20.sol"), IERC20, "utf-8");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("exports every declared contract and the primary one by default", () => {
+    const result = transformSolModule(LENS, path.join(tmpDir, "Lens.sol"), { root: tmpDir });
+
+    expect(result.code).toMatch(/^import \{ InlineContract as __InlineContract \} from "soltag";\n/);
+    expect(result.code).toContain('export const Lens = new __InlineContract("Lens", {"Lens":{"abi":[');
+    expect(result.code).toContain('export const Math = new __InlineContract("Math",');
+    expect(result.code).toMatch(/\nexport default Lens;\n$/);
+    // Imported contracts belong to their own module
+    expect(result.code).not.toContain("export const IERC20");
+    expect(result.dependencies).toEqual([path.join(tmpDir, "IERC20.sol")]);
+  });
+
+  it("defaults to the last contract when none is named after the file", () => {
+    const result = transformSolModule(LENS, path.join(tmpDir, "Lenses.sol"), { root: tmpDir });
+    expect(result.code).toMatch(/\nexport default Lens;\n$/);
+  });
+
+  it("locates compile errors in the .sol file", () => {
+    const broken = LENS.replace("Math.max(", "Math.maximum(");
+    const file = path.join(tmpDir, "Lens.sol");
+
+    expect(() => transformSolModule(broken, file, { root: tmpDir })).toThrow(SoltagCompileError);
+    expect(() => transformSolModule(broken, file, { root: tmpDir })).toThrow(
+      /^Lens\.sol failed to compile \(solc [\d.]+\):\n.*Lens\.sol:9:12 — error 9582: Member "maximum" not found/,
+    );
+  });
+
+  it("loads .sol imports in the plugin, forwarding warnings", async () => {
+    const file = path.join(tmpDir, "Lens.sol");
+    fs.writeFileSync(file, LENS.replace("// SPDX-License-Identifier: MIT\n", ""), "utf-8");
+    const plugin = unplugin.raw({ root: tmpDir, workers: 0 }, { framework: "esbuild" }) as {
+      load: { handler: (this: unknown, id: string) => Promise<string | undefined> };
+    };
+    const watched: string[] = [];
+    const warned: { message: string; loc: unknown }[] = [];
+
+    const code = await plugin.load.handler.call(
+      { addWatchFile: (dep: string) => watched.push(dep), warn: (w: (typeof warned)[0]) => warned.push(w) },
+      file,
+    );
+
+    expect(code).toContain("export default Lens;");
+    expect(watched).toEqual([path.join(tmpDir, "IERC20.sol")]);
+    expect(warned).toEqual([
+      expect.objectContaining({
+        message: expect.stringContaining("warning 1878: SPDX license identifier not provided"),
+        loc: { file, line: 1, column: 0 },
+      }),
+    ]);
+  });
+
+  it("compiles .sol files in the webpack loader", () => {
+    let output: string | undefined;
+    soltagLoader.call(
+      {
+        resourcePath: path.join(tmpDir, "Lens.sol"),
+        addDependency() {},
+        callback: (err, content) => {
+          if (err) throw err;
+          output = content;
+        },
+        emitWarning() {},
+        getOptions: () => ({ root: tmpDir }),
+      },
+      LENS,
+    );
+
+    expect(output).toContain("export default Lens;");
+  });
+});
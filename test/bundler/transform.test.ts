@@ -1,10 +1,15 @@
 import { describe, expect, it } from "vitest";
 
-import { transformSolTemplates } from "../../src/bundler/unplugin.js";
+import { compileSolTemplates, type SoltagPluginOptions, transformSolTemplates } from "../../src/bundler/unplugin.js";
+
+/** Transform `code` as test.ts with `sol` imported — appended, so positions in `code` stay valid */
+function transform(code: string, options?: SoltagPluginOptions) {
+  return transformSolTemplates(`${code}\nimport { sol } from "soltag";\n`, "test.ts", options);
+}
 
 describe("unplugin transform", () => {
   it("returns undefined for files without sol(", () => {
-    const result = transformSolTemplates("const x = 42;", "test.ts");
+    const result = transform("const x = 42;");
     expect(result).toBeUndefined();
   });
 
@@ -14,7 +19,7 @@ describe("unplugin transform", () => {
   pragma solidity ^0.8.24;
   contract A { function f() external pure returns (uint256) { return 1; } }
 \`;`;
-    const result = transformSolTemplates(input, "test.ts");
+    const result = transform(input);
     expect(result).toBeUndefined();
   });
 
@@ -44,7 +49,7 @@ const contract = sol("Greeter")\`
   pragma solidity ^0.8.24;
   contract A { function f() external pure returns (uint256) { return 1; } }
 \`;`;
-    const result = transformSolTemplates(input, "test.ts");
+    const result = transform(input);
 
     expect(result).toBeDefined();
     expect(result!.code).toMatch(/^import \{ InlineContract as __InlineContract \} from "soltag";/);
@@ -60,7 +65,7 @@ const contract = sol("Greeter")\`
     }
   }
 \`;`;
-    const result = transformSolTemplates(input, "test.ts");
+    const result = transform(input);
 
     expect(result).toBeDefined();
     // Should contain the contract name as a key in the artifacts
@@ -84,7 +89,7 @@ const b = sol("B")\`
   contract B { function fb() external pure returns (uint256) { return 2; } }
 \`;
 `;
-    const result = transformSolTemplates(input, "test.ts");
+    const result = transform(input);
 
     expect(result).toBeDefined();
     expect(result!.code).toContain('"A"');
@@ -100,7 +105,7 @@ const b = sol("B")\`
   pragma solidity ^0.8.24;
   contract A { function f() external pure returns (uint256) { return 1; } }
 \`;`;
-    const result = transformSolTemplates(input, "test.ts");
+    const result = transform(input);
 
     expect(result).toBeDefined();
     expect(result!.map).toBeDefined();
@@ -110,10 +115,27 @@ const b = sol("B")\`
   it("does not match sol in other contexts like parasol", () => {
     // parasol is a different identifier, AST won't match it
     const input = `const x = parasol\`template\`;`;
-    const result = transformSolTemplates(input, "test.ts");
+    const result = transform(input);
     expect(result).toBeUndefined();
   });
 
+  it("follows aliased and namespace imports of sol, and ignores other functions named sol", () => {
+    const body = `("A")\`${"\n  // SPDX-License-Identifier: MIT\n  pragma solidity ^0.8.24;\n  contract A {}\n"}\``;
+
+    const aliased = transformSolTemplates(
+      `import { sol as solidity } from "soltag";\nconst a = solidity${body};`,
+      "a.ts",
+    );
+    const namespaced = transformSolTemplates(`import * as st from "soltag";\nconst a = st.sol${body};`, "a.ts");
+    expect(aliased!.code).toContain('new __InlineContract("A",');
+    expect(namespaced!.code).toContain('new __InlineContract("A",');
+
+    const local = `import { solFile } from "soltag";\nfunction sol(name: string) { return String.raw; }\nconst a = sol${body};`;
+    expect(transformSolTemplates(local, "a.ts")).toBeUndefined();
+    // No mention of the package at all: skipped without parsing
+    expect(transformSolTemplates(`import { sol } from "./my-sol";\nconst a = sol${body};`, "a.ts")).toBeUndefined();
+  });
+
   // --- Interpolation tests ---
 
   it("resolves const string interpolation at build time", () => {
@@ -134,7 +156,7 @@ const contract = sol("Lens")\`
   }
 \`;
 `;
-    const result = transformSolTemplates(input, "test.ts");
+    const result = transform(input);
 
     expect(result).toBeDefined();
     expect(result!.code).toContain("new __InlineContract(");
@@ -150,15 +172,15 @@ const contract = sol("Simple")\`
   contract Simple { function f() external pure returns (uint256) { return 1; } }
 \`;
 `;
-    const result = transformSolTemplates(input, "test.ts");
+    const result = transform(input);
 
     expect(result).toBeDefined();
     expect(result!.code).toContain('"Simple"');
   });
 
-  it("skips templates with unresolvable interpolations", () => {
+  it("fails the build on unresolvable interpolations, naming the span and why", () => {
     const input = `
-let dynamicSource = getSolidity();
+const dynamicSource = getSolidity();
 const contract = sol("X")\`
   // SPDX-License-Identifier: MIT
   pragma solidity ^0.8.24;
@@ -166,13 +188,12 @@ const contract = sol("X")\`
   contract X { function f() external pure returns (uint256) { return 1; } }
 \`;
 `;
-    const result = transformSolTemplates(input, "test.ts");
-
-    // Should return undefined since the only sol template couldn't be resolved
-    expect(result).toBeUndefined();
+    expect(() => transform(input)).toThrow(
+      "test.ts:6:5 — cannot resolve `${dynamicSource}` at build time: `getSolidity(...)` is a function call, evaluated at runtime",
+    );
   });
 
-  it("skips non-const variable interpolations", () => {
+  it("fails the build on non-const variable interpolations", () => {
     const input = `
 let mutableSource = "interface I {}";
 const contract = sol("X")\`
@@ -182,9 +203,81 @@ const contract = sol("X")\`
   contract X { function f() external pure returns (uint256) { return 1; } }
 \`;
 `;
-    const result = transformSolTemplates(input, "test.ts");
+    expect(() => transform(input)).toThrow(
+      "`mutableSource` is declared with `let`; only `const` bindings resolve at build time",
+    );
+  });
 
-    // let is not const, so it can't be resolved at build time
+  it("leaves unresolvable templates for runtime when strict is off", () => {
+    const input = `
+let mutableSource = "interface I {}";
+const contract = sol("X")\`\${mutableSource} contract X {}\`;
+`;
+    const result = transform(input, { strict: false });
+
+    // The only sol template couldn't be resolved, so there is nothing to transform
     expect(result).toBeUndefined();
   });
+
+  // --- Per-template settings ---
+
+  const SETTINGS_CONTRACT = `
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  contract A { function f() external pure returns (uint256) { return 1; } }
+`;
+
+  function deployedBytecodeOf(code: string): string {
+    const match = code.match(/"deployedBytecode":"(0x[0-9a-f]*)"/);
+    expect(match).not.toBeNull();
+    return match![1];
+  }
+
+  it("applies sol('Name', { ...settings }) on top of the project settings", () => {
+    const plain = transform(`const c = sol("A")\`${SETTINGS_CONTRACT}\`;`);
+    const overridden = transform(`const c = sol("A", { metadata: { appendCBOR: false } })\`${SETTINGS_CONTRACT}\`;`);
+
+    expect(overridden).toBeDefined();
+    expect(overridden!.code).toContain('new __InlineContract("A",');
+    expect(deployedBytecodeOf(overridden!.code).length).toBeLessThan(deployedBytecodeOf(plain!.code).length);
+  });
+
+  it("resolves settings bound to a const", () => {
+    const input = `
+const NO_CBOR = { metadata: { appendCBOR: false } } as const;
+const c = sol("A", NO_CBOR)\`${SETTINGS_CONTRACT}\`;`;
+    const inline = transform(`const c = sol("A", { metadata: { appendCBOR: false } })\`${SETTINGS_CONTRACT}\`;`);
+    const result = transform(input);
+
+    expect(deployedBytecodeOf(result!.code)).toBe(deployedBytecodeOf(inline!.code));
+  });
+
+  it("fails the build for non-static settings", () => {
+    const input = `const c = sol("A", getSettings())\`${SETTINGS_CONTRACT}\`;`;
+    expect(() => transform(input)).toThrow(/test\.ts:1:20 .*statically-resolvable/);
+  });
+
+  it("fails the build for invalid settings", () => {
+    const input = `const c = sol("A", { evmVersion: "frontier" })\`${SETTINGS_CONTRACT}\`;`;
+    expect(() => transform(input)).toThrow(/evmVersion must be one of/);
+  });
+
+  it("compiles templates without rewriting the module, for AST-based transforms", () => {
+    const template = `sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  interface IThing { function x() external view returns (uint256); }
+  contract Lens { function read(IThing t) external view returns (uint256) { return t.x(); } }
+\``;
+    const code = `import { sol } from "soltag";\nexport const lens = ${template};\n`;
+    const compiled = compileSolTemplates(code, "test.ts");
+
+    expect(compiled?.templates).toHaveLength(1);
+    const [lens] = compiled?.templates ?? [];
+    expect(code.slice(lens.start, lens.end)).toBe(template);
+    expect(lens.contractName).toBe("Lens");
+    expect(Object.keys(lens.artifacts)).toEqual(["Lens"]);
+    expect(compiled?.dependencies).toEqual([]);
+    expect(compileSolTemplates("const x = 42;", "test.ts")).toBeUndefined();
+  });
 });
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { CompilePool } from "../../src/bundler/pool.js";
+import {
+  transformSolTemplates,
+  transformSolTemplatesAsync,
+  unplugin,
+  VIRTUAL_MODULE_PREFIX,
+} from "../../src/bundler/unplugin.js";
+import { VirtualModules } from "../../src/bundler/virtual-modules.js";
+
+const LENS = `
+import { sol } from 'soltag';
+const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  interface IERC20 { function balanceOf(address) external view returns (uint256); }
+  library Math { function min(uint256 a, uint256 b) internal pure returns (uint256) { return a < b ? a : b; } }
+  contract Lens {
+    function getBalance(address token, address user) external view returns (uint256) {
+      return Math.min(IERC20(token).balanceOf(user), 1);
+    }
+  }
+\`;
+`;
+
+describe("unplugin transform — emitted artifacts", () => {
+  it("inlines only the named contract", () => {
+    const result = transformSolTemplates(LENS, "test.ts");
+
+    expect(result!.code).toContain('new __InlineContract("Lens", {"Lens":{');
+    expect(result!.code).not.toContain('"IERC20"');
+    expect(result!.code).not.toContain('"Math"');
+  });
+
+  it("routes contracts through shared virtual modules", async () => {
+    const pool = new CompilePool(0);
+    const modules = new VirtualModules();
+    const a = await transformSolTemplatesAsync(LENS, "/src/a.ts", pool, undefined, modules);
+    const b = await transformSolTemplatesAsync(LENS, "/src/b.ts", pool, undefined, modules);
+
+    expect(modules.size).toBe(1);
+    const [[hash, module]] = [...modules.entries()];
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(module).toContain('import { InlineContract as __InlineContract } from "soltag";');
+    expect(module).toContain('export default new __InlineContract("Lens", {"Lens":{');
+    expect(module).not.toContain('"IERC20"');
+
+    for (const result of [a, b]) {
+      expect(result!.code).toContain(`import __soltag_${hash} from "${VIRTUAL_MODULE_PREFIX}${hash}";`);
+      expect(result!.code).toContain(`const lens = __soltag_${hash};`);
+      expect(result!.code).not.toContain("__InlineContract");
+    }
+  });
+
+  it("imports a repeated contract once per module", async () => {
+    const twice = `${LENS}\nconst again = ${LENS.slice(LENS.indexOf('sol("Lens")'))}`;
+    const modules = new VirtualModules();
+    const result = await transformSolTemplatesAsync(twice, "/src/a.ts", new CompilePool(0), undefined, modules);
+
+    expect(result!.code.match(/^import __soltag_/gm)).toHaveLength(1);
+    expect(result!.code.match(/= __soltag_/g)).toHaveLength(2);
+  });
+
+  it("drops virtual modules no module imports anymore", async () => {
+    const pool = new CompilePool(0);
+    const modules = new VirtualModules();
+    await transformSolTemplatesAsync(LENS, "/src/a.ts", pool, undefined, modules);
+    await transformSolTemplatesAsync(LENS, "/src/b.ts", pool, undefined, modules);
+    const [hash] = [...modules.entries()][0];
+
+    // Each edit of a.ts replaces what it imports; b.ts still imports the original
+    const edited = LENS.replace("return a < b ? a : b;", "return a > b ? b : a;");
+    await transformSolTemplatesAsync(edited, "/src/a.ts", pool, undefined, modules);
+    await transformSolTemplatesAsync(edited.replace("a > b", "a >= b"), "/src/a.ts", pool, undefined, modules);
+    expect(modules.size).toBe(2);
+    expect(modules.get(hash)).toBeDefined();
+
+    modules.release("/src/b.ts");
+    expect(modules.size).toBe(1);
+    expect(modules.get(hash)).toBeUndefined();
+    modules.release("/src/a.ts");
+    expect(modules.size).toBe(0);
+  });
+
+  it("resolves and loads the virtual modules it emits", async () => {
+    const plugin = unplugin.raw({ workers: 0 }, { framework: "rollup" }) as {
+      resolveId: { handler: (id: string) => string };
+      load: { handler: (id: string) => Promise<string | undefined> };
+      transform: { handler: (this: unknown, code: string, id: string) => Promise<{ code: string }> };
+    };
+
+    const { code } = await plugin.transform.handler.call({ addWatchFile() {} }, LENS, "/src/a.ts");
+    const specifier = /from "(virtual:soltag\/[0-9a-f]+)"/.exec(code)![1];
+    const resolved = plugin.resolveId.handler(specifier);
+
+    expect(resolved).toBe(`\0${specifier}`);
+    expect(await plugin.load.handler(resolved)).toContain('export default new __InlineContract("Lens"');
+  });
+});
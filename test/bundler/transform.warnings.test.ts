@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import soltagLoader from "../../src/bundler/loader.js";
+import { transformSolTemplates, unplugin } from "../../src/bundler/unplugin.js";
+import { warningPolicyFor } from "../../src/solc.js";
+
+const lens = (directive = "") => `import { sol } from "soltag";
+
+const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;${directive}
+  contract Lens {
+    function f() external pure returns (uint256) {
+      uint256 unused;
+      return 1;
+    }
+  }
+\`;
+`;
+
+describe("unplugin transform — warnings", () => {
+  it("locates warnings in the TypeScript file", () => {
+    const { warnings } = transformSolTemplates(lens(), "/src/lens.ts")!;
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ severity: "warning", code: "2072", file: "/src/lens.ts", line: 8, column: 6 }),
+    ]);
+    expect(warnings[0].frame).toContain(">  8 |       uint256 unused;");
+  });
+
+  it("forwards warnings to the bundler's this.warn", async () => {
+    const plugin = unplugin.raw({ workers: 0 }, { framework: "esbuild" }) as {
+      transform: { handler: (this: unknown, code: string, id: string) => Promise<unknown> };
+    };
+    const warned: unknown[] = [];
+    await plugin.transform.handler.call(
+      { addWatchFile() {}, warn: (warning: unknown) => warned.push(warning) },
+      lens(),
+      "/src/lens.ts",
+    );
+
+    expect(warned).toEqual([
+      {
+        message: expect.stringMatching(/^\/src\/lens\.ts:8:7 — warning 2072: Unused local variable/),
+        id: "/src/lens.ts",
+        loc: { file: "/src/lens.ts", line: 8, column: 6 },
+      },
+    ]);
+  });
+
+  it("emits warnings from the webpack loader", () => {
+    const warned: Error[] = [];
+    soltagLoader.call(
+      {
+        resourcePath: "/src/lens.ts",
+        addDependency() {},
+        callback: (err) => {
+          if (err) throw err;
+        },
+        emitWarning: (warning) => warned.push(warning),
+        getOptions: () => ({}),
+      },
+      lens(),
+    );
+
+    expect(warned.map((w) => w.message)).toEqual([expect.stringContaining("warning 2072: Unused local variable")]);
+  });
+
+  it("keeps warnings out of the bundler with `report: false`", () => {
+    expect(transformSolTemplates(lens(), "/src/lens.ts", { warnings: { report: false } })!.warnings).toEqual([]);
+  });
+
+  it("drops codes listed in a template's soltag-ignore comment", () => {
+    const ignored = lens("\n  // soltag-ignore 2072");
+    expect(transformSolTemplates(ignored, "/src/lens.ts")!.warnings).toEqual([]);
+    // Also before promotion, so an ignored warning doesn't fail a strict build
+    expect(transformSolTemplates(ignored, "/src/lens.ts", { warnings: { asErrors: true } })).toBeDefined();
+    expect(() => transformSolTemplates(lens(), "/src/lens.ts", { warnings: { asErrors: true } })).toThrow(
+      /error 2072: Unused local variable/,
+    );
+  });
+});
+
+describe("warningPolicyFor", () => {
+  it("adds the codes of every directive to the configured policy", () => {
+    const source = "// soltag-ignore 2072, 5667\n/* soltag-ignore 2018 */\ncontract A {}";
+    expect(warningPolicyFor(source, { ignore: [1878], asErrors: true })).toEqual({
+      ignore: [1878, 2072, 5667, 2018],
+      asErrors: true,
+    });
+    expect(warningPolicyFor("contract A {}", { asErrors: true })).toEqual({ asErrors: true });
+  });
+
+  it("reads codes from the directive's own line only", () => {
+    const source = "contract A { uint256[2] x = [ // soltag-ignore\n  1, 2]; }";
+    expect(warningPolicyFor(source, { asErrors: true })).toEqual({ asErrors: true });
+    expect(warningPolicyFor("// soltag-ignore 2072\n3 ", undefined)).toEqual({ ignore: [2072] });
+  });
+});
@@ -0,0 +1,89 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const LENS = `import { sol } from "soltag";
+
+export const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  contract Lens { function a() external pure returns (uint256) { return 1; } }
+\`;
+`;
+
+describe("soltag CLI", () => {
+  let tmpDir: string;
+  const argv = process.argv;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "soltag-cli-")));
+    fs.writeFileSync(path.join(tmpDir, "tsconfig.json"), '{ "include": ["*.ts"] }');
+  });
+
+  afterEach(() => {
+    process.argv = argv;
+    process.exitCode = undefined;
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  /** Run the CLI in-process on the project in `tmpDir`, with `lens.ts` holding `code` */
+  async function run(code: string) {
+    fs.writeFileSync(path.join(tmpDir, "lens.ts"), code);
+    const errors: string[] = [];
+    vi.spyOn(console, "error").mockImplementation((message: string) => void errors.push(message));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    process.argv = ["node", "soltag", "-p", tmpDir];
+    vi.resetModules();
+    await import("../src/cli.js");
+    return { errors, exitCode: process.exitCode };
+  }
+
+  it("generates types for templates", async () => {
+    const { errors, exitCode } = await run(LENS);
+    expect(errors).toEqual([]);
+    expect(exitCode).toBeUndefined();
+    expect(fs.readFileSync(path.join(tmpDir, ".soltag", "types.d.ts"), "utf-8")).toContain("Lens");
+  });
+
+  it("fails on settings that aren't statically resolvable", async () => {
+    const { errors, exitCode } = await run(LENS.replace('sol("Lens")', 'sol("Lens", makeSettings())'));
+    expect(exitCode).toBe(1);
+    expect(errors).toEqual([
+      expect.stringMatching(/lens\.ts:3:21 — sol\("Lens"\) settings must be a statically-resolvable object literal/),
+    ]);
+  });
+
+  it("prints solc's errors instead of a missing contract", async () => {
+    const { errors, exitCode } = await run(LENS.replace("return 1;", "return 1"));
+    expect(exitCode).toBe(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^error: .*lens\.ts:3:21 — ParserError: Expected ';'/);
+    expect(errors[0]).not.toContain("not found");
+  });
+
+  it("fails on warnings promoted by the config's warning policy", async () => {
+    fs.writeFileSync(path.join(tmpDir, "soltag.config.json"), '{ "warnings": { "asErrors": true } }');
+    const { errors, exitCode } = await run(LENS.replace("external pure", "external view"));
+    expect(exitCode).toBe(1);
+    expect(errors).toEqual([expect.stringMatching(/^error: .*lens\.ts:3:21 — Warning: Function state mutability/)]);
+  });
+
+  it("prints warnings without failing", async () => {
+    const { errors, exitCode } = await run(LENS.replace("external pure", "external view"));
+    expect(exitCode).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringMatching(/^warning: .*lens\.ts:3:21 — Warning: Function state/),
+    );
+    expect(errors).toEqual([]);
+  });
+
+  it("fails on a contract name the template doesn't define", async () => {
+    const { errors, exitCode } = await run(LENS.replace('sol("Lens")', 'sol("Lense")'));
+    expect(exitCode).toBe(1);
+    expect(errors).toEqual([expect.stringMatching(/lens\.ts:3:21 — .*"Lense".*Did you mean "Lens"\?/)]);
+  });
+});
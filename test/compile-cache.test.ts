@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+
+import { CompileCache, templateOwner, templateOwners } from "../src/compile-cache.js";
+import { compileCached, configureCompileCache, getCompileCacheStats, releaseCompiledFile } from "../src/solc.js";
+
+describe("CompileCache", () => {
+  it("evicts the least recently used entry beyond maxEntries", () => {
+    const cache = new CompileCache<string>();
+    cache.configure({ maxEntries: 2 });
+    cache.set("a", "A", 1);
+    cache.set("b", "B", 1);
+    cache.get("a");
+    cache.set("c", "C", 1);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe("A");
+    expect(cache.get("c")).toBe("C");
+    expect(cache.stats()).toMatchObject({ entries: 2, bytes: 2, hits: 3, misses: 1, evictions: 1 });
+  });
+
+  it("evicts beyond maxBytes", () => {
+    const cache = new CompileCache<string>();
+    cache.configure({ maxBytes: 100 });
+    cache.set("a", "A", 60);
+    cache.set("b", "B", 60);
+
+    expect(cache.stats()).toMatchObject({ entries: 1, bytes: 60, evictions: 1 });
+    expect(cache.get("b")).toBe("B");
+  });
+
+  it("drops entries that fail validation", () => {
+    const cache = new CompileCache<string>();
+    cache.set("a", "A", 1);
+
+    expect(cache.get("a", undefined, () => false)).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 0, misses: 1 });
+  });
+
+  it("releases a template's previous entry when it compiles a new source", () => {
+    const cache = new CompileCache<string>();
+    const owner = templateOwner("/src/lens.ts", "Lens");
+    cache.set("v1", "1", 1, owner);
+    cache.set("v2", "2", 1, owner);
+
+    expect(cache.stats()).toMatchObject({ entries: 1, invalidations: 1 });
+    expect(cache.get("v2")).toBe("2");
+  });
+
+  it("keeps entries another template still uses", () => {
+    const cache = new CompileCache<string>();
+    const a = templateOwner("/src/a.ts", "Lens");
+    const b = templateOwner("/src/b.ts", "Lens");
+    cache.set("shared", "S", 1, a);
+    cache.get("shared", b);
+    cache.set("edited", "E", 1, a);
+
+    expect(cache.get("shared")).toBe("S");
+  });
+
+  it("tells apart templates with the same name in one file", () => {
+    const [first, second, other] = templateOwners("/src/a.ts", ["Vault", "Vault", "Lens"]);
+    expect(new Set([first, second, other]).size).toBe(3);
+    expect(other).toBe(templateOwner("/src/a.ts", "Lens"));
+
+    const cache = new CompileCache<string>();
+    cache.set("v1", "1", 1, first);
+    cache.set("v2", "2", 1, second);
+    cache.set("v3", "3", 1, second);
+    expect(cache.get("v1")).toBe("1");
+  });
+
+  it("releases templates removed from a file", () => {
+    const cache = new CompileCache<string>();
+    cache.set("lens", "L", 1, templateOwner("/src/a.ts", "Lens"));
+    cache.set("math", "M", 1, templateOwner("/src/a.ts", "Math"));
+    cache.set("other", "O", 1, templateOwner("/src/ab.ts", "Other"));
+    cache.set("unowned", "U", 1);
+
+    cache.releaseFile("/src/a.ts", [templateOwner("/src/a.ts", "Math")]);
+    expect(cache.stats()).toMatchObject({ entries: 3, invalidations: 1 });
+
+    cache.releaseFile("/src/a.ts");
+    expect(cache.get("math")).toBeUndefined();
+    expect(cache.get("other")).toBe("O");
+    expect(cache.get("unowned")).toBe("U");
+  });
+});
+
+describe("compileCached memory cache", () => {
+  it("keeps one entry per template while it is edited", () => {
+    const fileName = "/project/src/edited.ts";
+    const owner = templateOwner(fileName, "Edited");
+    const before = getCompileCacheStats();
+
+    for (const value of [1, 12, 123]) {
+      compileCached(`pragma solidity ^0.8.0; contract Edited { uint256 x = ${value}; }`, undefined, {
+        basePath: "/project/src",
+        owner,
+      });
+    }
+    const after = getCompileCacheStats();
+    expect(after.entries - before.entries).toBe(1);
+    expect(after.invalidations - before.invalidations).toBe(2);
+
+    releaseCompiledFile(fileName);
+    expect(getCompileCacheStats().entries).toBe(before.entries);
+  });
+
+  it("applies configured limits", () => {
+    configureCompileCache({ maxEntries: 1 });
+    try {
+      compileCached("pragma solidity ^0.8.0; contract L1 {}");
+      compileCached("pragma solidity ^0.8.0; contract L2 {}");
+      expect(getCompileCacheStats().entries).toBe(1);
+    } finally {
+      configureCompileCache();
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import * as fs from "node:fs";
+import { createRequire } from "node:module";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { transformSolTemplates } from "../src/bundler/unplugin.js";
+import { listCompilers, parsePragma, satisfies, selectCompiler } from "../src/compilers.js";
+import { compileToArtifacts } from "../src/solc.js";
+
+const require = createRequire(import.meta.url);
+const INSTALLED = (require("solc").version() as string).split("+")[0];
+
+describe("satisfies", () => {
+  it.each([
+    ["0.8.19", "0.8.19", true],
+    ["0.8.20", "0.8.19", false],
+    ["0.8.28", "^0.8.19", true],
+    ["0.9.0", "^0.8.19", false],
+    ["0.8.18", "^0.8.19", false],
+    ["0.8.25", "~0.8.20", true],
+    ["0.8.25", ">=0.8.0 <0.9.0", true],
+    ["0.9.0", ">=0.8.0 <0.9.0", false],
+    ["0.8.4", "> 0.8.3", true],
+    ["0.8.3", ">0.8.3", false],
+    ["0.8.30", "<=0.8", true],
+    ["0.7.6", "^0.7.0 || ^0.8.0", true],
+    ["0.6.12", "^0.7.0 || ^0.8.0", false],
+    ["0.8.10", "0.8.4 - 0.8.12", true],
+    ["0.8.13", "0.8.4 - 0.8.12", false],
+    ["0.8.10", "0.8.x", true],
+  ])("%s satisfies %s → %s", (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected);
+  });
+
+  it("throws on ranges it can't parse", () => {
+    expect(() => satisfies("0.8.0", "latest")).toThrow(/unsupported version range "latest"/);
+  });
+});
+
+describe("parsePragma", () => {
+  it("returns the first pragma outside comments", () => {
+    const source = "// pragma solidity 0.4.0;\n/* pragma solidity 0.5.0; */\npragma solidity >=0.8.0 <0.9.0;\n";
+    expect(parsePragma(source)).toBe(">=0.8.0 <0.9.0");
+  });
+
+  it("returns undefined without a pragma", () => {
+    expect(parsePragma("contract A {}")).toBeUndefined();
+  });
+});
+
+describe("compiler selection", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "soltag-compilers-")));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function addCompiler(fileName: string): void {
+    fs.writeFileSync(path.join(tmpDir, fileName), "", "utf-8");
+  }
+
+  it("lists cached builds and the installed package, newest first", () => {
+    addCompiler("soljson-v0.8.19+commit.7dd6d404.js");
+    addCompiler("soljson-v0.7.6+commit.7338295f.js");
+    addCompiler("README.md");
+
+    const versions = listCompilers(tmpDir).map((c) => c.longVersion);
+    expect(versions).toEqual([
+      expect.stringMatching(new RegExp(`^${INSTALLED}\\+commit`)),
+      "0.8.19+commit.7dd6d404",
+      "0.7.6+commit.7338295f",
+    ]);
+  });
+
+  it("picks the newest compiler the pragma allows", () => {
+    addCompiler("soljson-v0.8.19+commit.7dd6d404.js");
+    addCompiler("soljson-v0.8.17+commit.8df45f5f.js");
+    addCompiler("soljson-v0.7.6+commit.7338295f.js");
+
+    expect(selectCompiler("pragma solidity ^0.8.0;", { dir: tmpDir }).version).toBe(INSTALLED);
+    expect(selectCompiler("pragma solidity >=0.8.0 <0.8.19;", { dir: tmpDir }).version).toBe("0.8.17");
+    expect(selectCompiler("pragma solidity ^0.7.0;", { dir: tmpDir }).path).toBe(
+      path.join(tmpDir, "soljson-v0.7.6+commit.7338295f.js"),
+    );
+  });
+
+  it("prefers a pinned version over the pragma", () => {
+    addCompiler("soljson-v0.8.19+commit.7dd6d404.js");
+    expect(selectCompiler("pragma solidity ^0.8.0;", { dir: tmpDir, version: "v0.8.19" }).version).toBe("0.8.19");
+  });
+
+  it("explains what is available when nothing matches", () => {
+    addCompiler("soljson-v0.8.19+commit.7dd6d404.js");
+    expect(() => selectCompiler("pragma solidity 0.6.12;", { dir: tmpDir })).toThrow(
+      new RegExp(`no solc satisfies "pragma solidity 0.6.12" \\(available: ${INSTALLED}, 0.8.19\\)`),
+    );
+  });
+
+  it("compiles with a cached build and reports its version in the artifacts", () => {
+    // Any soljson build works; reuse the installed package's under another version label
+    fs.symlinkSync(require.resolve("solc/soljson.js"), path.join(tmpDir, "soljson-v0.8.99+commit.deadbeef.js"));
+
+    const { artifacts } = compileToArtifacts("pragma solidity ^0.8.0;\ncontract A {}", undefined, {
+      basePath: tmpDir,
+      compilers: tmpDir,
+    });
+    expect(artifacts.A.compilerVersion).toBe("0.8.99+commit.deadbeef");
+  });
+
+  it("emits the compiler version into bundled artifacts and errors", () => {
+    const code = `import { sol } from "soltag";\nconst a = sol("A")\`pragma solidity ^0.8.0; contract A {}\`;`;
+    const result = transformSolTemplates(code, path.join(tmpDir, "a.ts"), { root: tmpDir, compilers: tmpDir });
+    expect(result!.code).toContain(`"compilerVersion":"${INSTALLED}+commit.`);
+
+    const broken = `import { sol } from "soltag";\nconst a = sol("A")\`pragma solidity ^0.8.0; contract A { uint x = ; }\`;`;
+    expect(() => transformSolTemplates(broken, path.join(tmpDir, "a.ts"), { root: tmpDir, compilers: tmpDir })).toThrow(
+      new RegExp(`sol\\("A"\\) failed to compile \\(solc ${INSTALLED.replace(/\\./g, "\\.")}\\)`),
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import ts from "typescript";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { transformSolTemplates } from "../src/bundler/unplugin.js";
+import { configCacheKey, createExcludeFilter, findConfigFile, loadConfigFile, resolveConfig } from "../src/config.js";
+
+const UNUSED_LOCAL_LENS = `
+import { sol } from 'soltag';
+const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  contract Lens {
+    function f() external pure returns (uint256) { uint256 unused; return 1; }
+  }
+\`;
+`;
+
+describe("soltag config", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "soltag-config-")));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function write(rel: string, contents: string): string {
+    const p = path.join(tmpDir, rel);
+    fs.mkdirSync(path.dirname(p), { recursive: true });
+    fs.writeFileSync(p, contents, "utf-8");
+    return p;
+  }
+
+  it("loads a TypeScript config file", () => {
+    const file = write(
+      "soltag.config.ts",
+      `interface Cfg { solc: { viaIR: boolean } }\nconst config: Cfg = { solc: { viaIR: true } };\nexport default config;\n`,
+    );
+    expect(loadConfigFile(ts, file)).toEqual({ solc: { viaIR: true } });
+  });
+
+  it("loads a JSON config file", () => {
+    const file = write("soltag.config.json", JSON.stringify({ typesFile: "types/soltag.d.ts" }));
+    expect(loadConfigFile(ts, file)).toEqual({ typesFile: "types/soltag.d.ts" });
+  });
+
+  it("reports the config path when evaluation fails", () => {
+    const file = write("soltag.config.js", "throw new Error('boom');\n");
+    expect(() => loadConfigFile(ts, file)).toThrow(/soltag\.config\.js: boom/);
+  });
+
+  it("finds the nearest config file above a directory", () => {
+    const file = write("soltag.config.mjs", "export default {};\n");
+    fs.mkdirSync(path.join(tmpDir, "src", "lib"), { recursive: true });
+    expect(findConfigFile(path.join(tmpDir, "src", "lib"))).toBe(file);
+  });
+
+  it("layers foundry < config file < overrides", () => {
+    write("foundry.toml", '[profile.default]\noptimizer_runs = 200\nevm_version = "cancun"\nvia_ir = true\n');
+    write("soltag.config.ts", `export default { solc: { optimizer: { runs: 500 }, evmVersion: "paris" } };\n`);
+
+    const config = resolveConfig(ts, tmpDir, { solc: { evmVersion: "shanghai" } });
+    expect(config.root).toBe(tmpDir);
+    expect(config.solc).toEqual({ optimizer: { runs: 500 }, evmVersion: "shanghai", viaIR: true });
+    expect(config.typesFile).toBe(path.join(tmpDir, ".soltag", "types.d.ts"));
+    expect(config.include).toEqual([".ts", ".tsx", ".mts", ".cts"]);
+  });
+
+  it("applies the config file's warning policy in the bundler", () => {
+    const tsFile = path.join(tmpDir, "src", "lens.ts");
+    expect(transformSolTemplates(UNUSED_LOCAL_LENS, tsFile, { root: tmpDir })).toBeDefined();
+
+    write("soltag.config.ts", `export default { warnings: { asErrors: true } };\n`);
+    expect(() => transformSolTemplates(UNUSED_LOCAL_LENS, tsFile, { root: tmpDir })).toThrow(/Unused local variable/);
+    expect(
+      transformSolTemplates(UNUSED_LOCAL_LENS, tsFile, { root: tmpDir, warnings: { ignore: [2072] } }),
+    ).toBeDefined();
+  });
+
+  it("fails when the pinned compiler version isn't available", () => {
+    write("soltag.config.json", JSON.stringify({ version: "0.4.26", compilers: "compilers" }));
+    expect(() => transformSolTemplates(UNUSED_LOCAL_LENS, path.join(tmpDir, "lens.ts"), { root: tmpDir })).toThrow(
+      /solc 0\.4\.26 is pinned but is not in .*compilers/,
+    );
+  });
+
+  it("keys caches on RegExp exclude patterns", () => {
+    const key = (exclude: RegExp[]) => configCacheKey(resolveConfig(ts, tmpDir, { exclude }));
+    expect(key([/generated/])).toContain("/generated/");
+    expect(key([/generated/])).not.toBe(key([/vendor/]));
+  });
+
+  it("matches exclude globs against the project root, like the unplugin filter", () => {
+    const { exclude } = resolveConfig(ts, tmpDir, { exclude: ["generated/**", "**/*.spec.ts", /vendor/g] });
+    const isExcluded = createExcludeFilter(exclude);
+
+    expect(isExcluded(path.join(tmpDir, "generated", "a.ts"))).toBe(true);
+    expect(isExcluded(path.join(tmpDir, "src", "generated", "a.ts"))).toBe(false);
+    expect(isExcluded(path.join(tmpDir, "src", "a.spec.ts"))).toBe(true);
+    // Global RegExps match every time
+    expect(isExcluded(path.join(tmpDir, "vendor", "a.ts"))).toBe(true);
+    expect(isExcluded(path.join(tmpDir, "vendor", "a.ts"))).toBe(true);
+    expect(isExcluded(path.join(tmpDir, "src", "a.ts"))).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { cleanDiskCache, pruneDiskCache } from "../src/disk-cache.js";
+
+const CONTRACT = "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ncontract A { uint256 public x = 1; }\n";
+
+/** A fresh copy of the compiler module, i.e. an empty in-memory cache — like a new process */
+async function freshSolc(): Promise<typeof import("../src/solc.js")> {
+  vi.resetModules();
+  return import("../src/solc.js");
+}
+
+describe("disk cache", () => {
+  let tmpDir: string;
+  let cacheDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "soltag-disk-cache-")));
+    cacheDir = path.join(tmpDir, ".soltag", "cache");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function entries(): string[] {
+    return fs.existsSync(cacheDir) ? fs.readdirSync(cacheDir) : [];
+  }
+
+  it("reuses compilations across processes", async () => {
+    const context = { basePath: tmpDir, cache: { dir: cacheDir } };
+    const first = (await freshSolc()).compileCached(CONTRACT, undefined, context);
+    expect(entries()).toHaveLength(1);
+    expect(entries()[0]).toMatch(/^[0-9a-f]{64}\.json$/);
+
+    // Mark the stored entry so a hit is distinguishable from a recompile
+    const file = path.join(cacheDir, entries()[0]);
+    const stored = JSON.parse(fs.readFileSync(file, "utf-8"));
+    stored.compilation.compilerVersion = "from-disk";
+    fs.writeFileSync(file, JSON.stringify(stored));
+
+    const second = (await freshSolc()).compileCached(CONTRACT, undefined, context);
+    expect(second.compilerVersion).toBe("from-disk");
+    expect(second.output).toEqual(first.output);
+  });
+
+  it("keys on settings", async () => {
+    const { compileCached } = await freshSolc();
+    compileCached(CONTRACT, { optimizer: { runs: 1 } }, { basePath: tmpDir, cache: { dir: cacheDir } });
+    compileCached(CONTRACT, { optimizer: { runs: 2 } }, { basePath: tmpDir, cache: { dir: cacheDir } });
+    expect(entries()).toHaveLength(2);
+  });
+
+  it("recompiles when an imported file changed since the entry was written", async () => {
+    const dep = path.join(tmpDir, "B.sol");
+    fs.writeFileSync(dep, "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ncontract B {}\n");
+    const source = `${CONTRACT}import "./B.sol";\n`;
+    const context = { basePath: tmpDir, root: tmpDir, cache: { dir: cacheDir } };
+
+    (await freshSolc()).compileCached(source, undefined, context);
+    fs.writeFileSync(dep, "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ncontract C {}\n");
+
+    const { output } = (await freshSolc()).compileCached(source, undefined, context);
+    expect(Object.keys(output.contracts![path.basename(dep)])).toEqual(["C"]);
+  });
+
+  it("doesn't store failed compilations", async () => {
+    const { compileCached } = await freshSolc();
+    compileCached("pragma solidity ^0.8.0; contract A { uint x = ; }", undefined, {
+      basePath: tmpDir,
+      cache: { dir: cacheDir },
+    });
+    expect(entries()).toEqual([]);
+  });
+
+  it("evicts least recently used entries beyond maxSize", () => {
+    fs.mkdirSync(cacheDir, { recursive: true });
+    for (const [name, age] of [
+      ["old", 30],
+      ["mid", 20],
+      ["new", 10],
+    ] as const) {
+      const file = path.join(cacheDir, `${name}.json`);
+      fs.writeFileSync(file, "x".repeat(100));
+      const time = new Date(Date.now() - age * 1000);
+      fs.utimesSync(file, time, time);
+    }
+
+    pruneDiskCache(cacheDir, 250);
+    expect(entries().sort()).toEqual(["mid.json", "new.json"]);
+  });
+
+  it("cleans entries and leftover temporary files", () => {
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(path.join(cacheDir, "a.json"), "{}");
+    fs.writeFileSync(path.join(cacheDir, "b.json"), "{}");
+    fs.writeFileSync(path.join(cacheDir, "c.json.123.abc.tmp"), "{");
+
+    expect(cleanDiskCache(cacheDir)).toEqual({ entries: 2, bytes: 4 });
+    expect(entries()).toEqual([]);
+    expect(cleanDiskCache(path.join(tmpDir, "missing"))).toEqual({ entries: 0, bytes: 0 });
+  });
+
+  it("is on by default under .soltag/cache and can be disabled in the config", async () => {
+    const { resolveConfig } = await import("../src/config.js");
+    const ts = (await import("typescript")).default;
+
+    expect(resolveConfig(ts, tmpDir).cache).toEqual({ dir: cacheDir, maxSize: undefined });
+    expect(resolveConfig(ts, tmpDir, { cache: { dir: "tmp/cache", maxSize: 1024 } }).cache).toEqual({
+      dir: path.join(tmpDir, "tmp", "cache"),
+      maxSize: 1024,
+    });
+    expect(resolveConfig(ts, tmpDir, { cache: false }).cache).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import ts from "typescript";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { findSolTemplateLiterals } from "../../src/editor/analysis.js";
+import { createProgramModuleHost } from "../../src/module-host.js";
+
+describe("findSolTemplateLiterals — imported constants", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-analysis-modules-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("resolves constants through the program's modules", () => {
+    fs.writeFileSync(path.join(tmpDir, "fragments.ts"), "export const IERC20 = `interface IERC20 {}`;\n");
+    fs.writeFileSync(path.join(tmpDir, "index.ts"), 'export { IERC20 } from "./fragments";\n');
+    const lensFile = path.join(tmpDir, "lens.ts");
+    fs.writeFileSync(
+      lensFile,
+      'import { sol } from "soltag";\nimport { IERC20 } from "./index";\nconst lens = sol("Lens")`${IERC20}\ncontract Lens {}`;\n',
+    );
+
+    const program = ts.createProgram([lensFile], {
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+    });
+    const sourceFile = program.getSourceFile(lensFile)!;
+    const tsModule = ts as unknown as Parameters<typeof findSolTemplateLiterals>[0];
+    const file = sourceFile as unknown as Parameters<typeof findSolTemplateLiterals>[1];
+
+    expect(findSolTemplateLiterals(tsModule, file)[0].source).toBeUndefined();
+
+    const dependencies = new Set<string>();
+    const [literal] = findSolTemplateLiterals(tsModule, file, {
+      modules: createProgramModuleHost(ts, program),
+      dependencies,
+    });
+    expect(literal.source).toBe("interface IERC20 {}\ncontract Lens {}");
+    expect([...dependencies]).toEqual([path.join(tmpDir, "index.ts"), path.join(tmpDir, "fragments.ts")]);
+  });
+});
@@ -21,6 +21,7 @@ describe("findSolTemplateLiterals — solFile", () => {
   it("captures resolverError when solFile path is missing", () => {
     const tsFile = path.join(tmpDir, "lens.ts");
     const code = `
+import { sol, solFile } from "soltag";
 const lens = sol("Lens")\`
   pragma solidity ^0.8.24;
   \${solFile("./does-not-exist.sol")}
@@ -45,6 +46,7 @@ const lens = sol("Lens")\`
 
     const tsFile = path.join(tmpDir, "lens.ts");
     const code = `
+import { sol, solFile } from "soltag";
 const lens = sol("Lens")\`
   pragma solidity ^0.8.24;
   \${solFile("./IFoo.sol")}
@@ -3,8 +3,9 @@ import { describe, expect, it } from "vitest";
 
 import { findSolTemplateLiterals, isSolTag } from "../../src/editor/analysis.js";
 
-function createSourceFile(code: string): ts.SourceFile {
-  return ts.createSourceFile("test.ts", code, ts.ScriptTarget.Latest, true);
+/** Parse `code` with `sol` imported — appended, so offsets into `code` stay valid */
+function createSourceFile(code: string, imports = 'import { sol } from "soltag";'): ts.SourceFile {
+  return ts.createSourceFile("test.ts", `${code}\n${imports}\n`, ts.ScriptTarget.Latest, true);
 }
 
 describe("plugin analysis", () => {
@@ -54,6 +55,34 @@ describe("plugin analysis", () => {
       expect(results).toHaveLength(0);
     });
 
+    it("reports non-static settings as a resolver error", () => {
+      const source = createSourceFile(`
+        const x = sol("Lens", makeSettings())\`pragma solidity ^0.8.24; contract Lens {}\`;
+      `);
+
+      const results = findSolTemplateLiterals(ts, source);
+      expect(results).toHaveLength(1);
+      expect(results[0].source).toBeUndefined();
+      expect(results[0].resolverError?.message).toContain("statically-resolvable");
+    });
+
+    it("reports the unresolvable interpolation's span and why", () => {
+      const code = `
+        let version = "0.8.24";
+        const x = sol("Lens")\`pragma solidity \${version}; contract Lens {}\`;
+      `;
+      const source = createSourceFile(code);
+
+      const [result] = findSolTemplateLiterals(ts, source);
+      expect(result.source).toBeUndefined();
+      expect(result.resolverError).toBeUndefined();
+      expect(result.unresolved!.node.getStart(source)).toBe(code.indexOf("version};"));
+      expect(result.unresolved!.node.getEnd()).toBe(code.indexOf("};"));
+      expect(result.unresolved!.message).toBe(
+        "cannot resolve `${version}` at build time: `version` is declared with `let`; only `const` bindings resolve at build time",
+      );
+    });
+
     it("ignores plain sol`` form (no longer supported)", () => {
       const source = createSourceFile(`
         const x = sol\`pragma solidity ^0.8.24; contract A {}\`;
@@ -80,6 +109,60 @@ describe("plugin analysis", () => {
       expect((result as { contractName: string }).contractName).toBe("Lens");
     });
 
+    it("recognizes sol('Name', { ...settings }) with static settings", () => {
+      const source = createSourceFile(`const x = sol("Lens", { viaIR: true, optimizer: { runs: 200 } })\`test\`;`);
+      let tag: ts.Node | undefined;
+      function visit(node: ts.Node) {
+        if (ts.isTaggedTemplateExpression(node)) tag = node.tag;
+        ts.forEachChild(node, visit);
+      }
+      visit(source);
+
+      const result = isSolTag(ts, tag!);
+      expect(result).toEqual({ contractName: "Lens", settings: { viaIR: true, optimizer: { runs: 200 } } });
+    });
+
+    it("flags non-static settings instead of ignoring the tag", () => {
+      const source = createSourceFile(`const x = sol("Lens", { viaIR: flag })\`test\`;`);
+      let tag: ts.Node | undefined;
+      function visit(node: ts.Node) {
+        if (ts.isTaggedTemplateExpression(node)) tag = node.tag;
+        ts.forEachChild(node, visit);
+      }
+      visit(source);
+
+      const result = isSolTag(ts, tag!);
+      expect(result).not.toBe(false);
+      expect((result as { unresolvedSettings?: ts.Node }).unresolvedSettings).toBeDefined();
+    });
+
+    it("follows aliased and namespace imports of sol", () => {
+      const aliased = createSourceFile(
+        'const x = solidity("A")`contract A {}`;',
+        'import { sol as solidity } from "soltag";',
+      );
+      const namespaced = createSourceFile('const x = st.sol("A")`contract A {}`;', 'import * as st from "soltag";');
+
+      expect(findSolTemplateLiterals(ts, aliased).map((r) => r.contractName)).toEqual(["A"]);
+      expect(findSolTemplateLiterals(ts, namespaced).map((r) => r.contractName)).toEqual(["A"]);
+    });
+
+    it("ignores a sol that isn't imported from soltag", () => {
+      const local = createSourceFile(
+        'function sol(name: string) { return String.raw; }\nconst x = sol("A")`contract A {}`;',
+        "",
+      );
+      const elsewhere = createSourceFile('const x = sol("A")`contract A {}`;', 'import { sol } from "./sol";');
+      const otherExport = createSourceFile(
+        'const x = st.solFile("A")`contract A {}`;',
+        'import * as st from "soltag";',
+      );
+
+      expect(findSolTemplateLiterals(ts, local)).toHaveLength(0);
+      expect(findSolTemplateLiterals(ts, elsewhere)).toHaveLength(0);
+      expect(findSolTemplateLiterals(ts, otherExport)).toHaveLength(0);
+    });
+
     it("rejects plain sol identifier", () => {
       const source = createSourceFile(`const x = sol\`test\`;`);
       let tag: ts.Node | undefined;
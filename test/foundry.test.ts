@@ -0,0 +1,110 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { transformSolTemplates } from "../src/bundler/unplugin.js";
+import { findFoundryRoot, loadFoundryConfig, parseRemappingsFile, profileToSolcSettings } from "../src/foundry.js";
+
+describe("foundry config", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "soltag-foundry-")));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function write(rel: string, contents: string): string {
+    const p = path.join(tmpDir, rel);
+    fs.mkdirSync(path.dirname(p), { recursive: true });
+    fs.writeFileSync(p, contents, "utf-8");
+    return p;
+  }
+
+  it("maps profile keys onto solc settings", () => {
+    const { version, solc } = profileToSolcSettings({
+      solc_version: "0.8.24",
+      optimizer: true,
+      optimizer_runs: 10_000,
+      evm_version: "paris",
+      via_ir: true,
+      remappings: ["@oz/=lib/oz/"],
+      src: "src",
+    });
+    expect(version).toBe("0.8.24");
+    expect(solc).toEqual({
+      optimizer: { enabled: true, runs: 10_000 },
+      evmVersion: "paris",
+      viaIR: true,
+      remappings: ["@oz/=lib/oz/"],
+    });
+  });
+
+  it("parses remappings.txt, skipping blanks and comments", () => {
+    expect(parseRemappingsFile("# deps\n@oz/=lib/oz/\n\nforge-std/=lib/forge-std/src/ # test\n")).toEqual([
+      "@oz/=lib/oz/",
+      "forge-std/=lib/forge-std/src/",
+    ]);
+  });
+
+  it("finds foundry.toml above the start directory", () => {
+    write("foundry.toml", "[profile.default]\n");
+    fs.mkdirSync(path.join(tmpDir, "apps", "web"), { recursive: true });
+    expect(findFoundryRoot(path.join(tmpDir, "apps", "web"))).toBe(tmpDir);
+  });
+
+  it("merges the active profile over the default profile", () => {
+    write(
+      "foundry.toml",
+      '[profile.default]\noptimizer_runs = 200\nevm_version = "cancun"\n\n[profile.ci]\noptimizer_runs = 1000000\n',
+    );
+    const config = loadFoundryConfig(tmpDir, "ci");
+    expect(config?.root).toBe(tmpDir);
+    expect(config?.solc.optimizer?.runs).toBe(1_000_000);
+    expect(config?.solc.evmVersion).toBe("cancun");
+  });
+
+  it("combines remappings.txt with profile remappings", () => {
+    write("foundry.toml", '[profile.default]\nremappings = ["b/=lib/b2/"]\n');
+    write("remappings.txt", "a/=lib/a/\nb/=lib/b/\n");
+    expect(loadFoundryConfig(tmpDir)?.solc.remappings).toEqual(["a/=lib/a/", "b/=lib/b/", "b/=lib/b2/"]);
+  });
+
+  it("throws on malformed foundry.toml", () => {
+    write("foundry.toml", "[profile.default\n");
+    expect(() => loadFoundryConfig(tmpDir)).toThrow(/failed to parse/);
+  });
+
+  it("rejects an unknown evm_version, naming foundry.toml", () => {
+    write("foundry.toml", '[profile.default]\nevm_version = "merge"\n');
+    expect(() => loadFoundryConfig(tmpDir)).toThrow(
+      /invalid compiler settings in .*foundry\.toml \(profile "default"\):\n {2}- evmVersion must be one of/,
+    );
+  });
+
+  it("is applied by transformSolTemplates", () => {
+    write("foundry.toml", '[profile.default]\nremappings = ["@lib/=vendor/lib/"]\n');
+    write(
+      "vendor/lib/IERC20.sol",
+      "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ninterface IERC20 { function balanceOf(address) external view returns (uint256); }\n",
+    );
+    const code = `
+import { sol } from 'soltag';
+const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  import "@lib/IERC20.sol";
+  contract Lens {
+    function get(address t) external view returns (uint256) { return IERC20(t).balanceOf(msg.sender); }
+  }
+\`;
+`;
+    const result = transformSolTemplates(code, path.join(tmpDir, "src", "lens.ts"), { root: tmpDir });
+    expect(result).toBeDefined();
+    expect(result!.dependencies).toEqual([path.join(tmpDir, "vendor", "lib", "IERC20.sol")]);
+  });
+});
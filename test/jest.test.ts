@@ -0,0 +1,91 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { SoltagCompileError } from "../src/bundler/errors.js";
+import { createTransformer } from "../src/jest.js";
+
+const LENS = `import { sol, solFile } from "soltag";
+
+export const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  \${solFile("./IThing.sol")}
+  contract Lens { function read(IThing thing) external view returns (uint256) { return thing.x(); } }
+\`;
+`;
+
+const ITHING = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+interface IThing { function x() external view returns (uint256); }
+`;
+
+describe("soltag/jest", () => {
+  let tmpDir: string;
+  let options: { config: { rootDir: string }; configString: string; supportsStaticESM?: boolean };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-jest-"));
+    fs.writeFileSync(path.join(tmpDir, "IThing.sol"), ITHING);
+    options = { config: { rootDir: tmpDir }, configString: "{}" };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("compiles templates to CommonJS, or ESM when Jest runs the file as a module", () => {
+    const transformer = createTransformer();
+    const file = path.join(tmpDir, "lens.ts");
+
+    const { code } = transformer.process(LENS, file, options);
+    expect(code).toContain('require("soltag")');
+    expect(code).toContain('new soltag_1.InlineContract("Lens"');
+    expect(code).toContain("sourceMappingURL=data:application/json;base64,");
+
+    const esm = transformer.process(LENS, file, { ...options, supportsStaticESM: true });
+    expect(esm.code).toContain('import { InlineContract as __InlineContract } from "soltag";');
+  });
+
+  it("strips types from files without templates", () => {
+    const { code } = createTransformer().process(
+      "export const x: number = 1;\n",
+      path.join(tmpDir, "plain.ts"),
+      options,
+    );
+    expect(code).toContain("exports.x = 1;");
+  });
+
+  it("compiles .sol modules", () => {
+    const { code } = createTransformer().process(ITHING, path.join(tmpDir, "IThing.sol"), options);
+    expect(code).toContain('exports.IThing = new soltag_1.InlineContract("IThing"');
+  });
+
+  it("keys the cache on solFile dependencies and compiler settings", () => {
+    const transformer = createTransformer();
+    const file = path.join(tmpDir, "lens.ts");
+    const key = transformer.getCacheKey(LENS, file, options);
+    expect(transformer.getCacheKey(LENS, file, options)).toBe(key);
+
+    fs.writeFileSync(path.join(tmpDir, "IThing.sol"), ITHING.replace("x()", "y()").replace("thing.x", "thing.y"));
+    expect(transformer.getCacheKey(LENS.replace("thing.x", "thing.y"), file, options)).not.toBe(key);
+    fs.writeFileSync(path.join(tmpDir, "IThing.sol"), `${ITHING}\n// comment\n`);
+    expect(transformer.getCacheKey(LENS, file, options)).not.toBe(key);
+    fs.writeFileSync(path.join(tmpDir, "IThing.sol"), ITHING);
+
+    const optimized = createTransformer({ solc: { optimizer: { enabled: true, runs: 1 } } });
+    expect(optimized.getCacheKey(LENS, file, options)).not.toBe(key);
+    const excluding = (pattern: RegExp) => createTransformer({ exclude: [pattern] }).getCacheKey(LENS, file, options);
+    expect(excluding(/generated/)).not.toBe(excluding(/vendor/));
+  });
+
+  it("throws compile errors from process", () => {
+    const transformer = createTransformer();
+    const broken = LENS.replace("return thing.x();", "return thing.z();");
+    const file = path.join(tmpDir, "broken.ts");
+    transformer.getCacheKey(broken, file, options);
+    expect(() => transformer.process(broken, file, options)).toThrow(SoltagCompileError);
+  });
+});
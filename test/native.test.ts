@@ -0,0 +1,140 @@
+import * as fs from "node:fs";
+import { createRequire } from "node:module";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { transformSolTemplates } from "../src/bundler/unplugin.js";
+import { compileCached, compileToArtifacts } from "../src/solc.js";
+
+const require = createRequire(import.meta.url);
+const SOLC = require.resolve("solc");
+
+/**
+ * Stand-in for a native solc binary: speaks the same command line
+ * (`--version`, `--standard-json`, `--base-path`, `--include-path`) but
+ * compiles with solc-js, reading imports from the given paths.
+ */
+const FAKE_SOLC = `#!/usr/bin/env node
+const fs = require("fs");
+const path = require("path");
+const solc = require(${JSON.stringify(SOLC)});
+const args = process.argv.slice(2);
+if (args.includes("--version")) {
+  console.log("solc, the solidity compiler commandline interface");
+  console.log("Version: " + solc.version().replace(".Emscripten.clang", ".Linux.g++"));
+  process.exit(0);
+}
+const dirs = [];
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === "--base-path" || args[i] === "--include-path") dirs.push(args[++i]);
+}
+fs.appendFileSync(__filename + ".calls", JSON.stringify(args) + "\\n");
+const input = fs.readFileSync(0, "utf-8");
+process.stdout.write(solc.compile(input, {
+  import(name) {
+    for (const dir of dirs) {
+      const p = path.resolve(dir, name);
+      if (fs.existsSync(p)) return { contents: fs.readFileSync(p, "utf-8") };
+    }
+    return { error: "File not found" };
+  },
+}));
+`;
+
+const LENS = `
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  import "./IERC20.sol";
+  contract Lens {
+    function getBalance(address token, address user) external view returns (uint256) {
+      return IERC20(token).balanceOf(user);
+    }
+  }
+`;
+
+describe("native solc backend", () => {
+  let tmpDir: string;
+  let binary: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "soltag-native-")));
+    binary = path.join(tmpDir, "bin", "solc");
+    fs.mkdirSync(path.dirname(binary));
+    fs.writeFileSync(binary, FAKE_SOLC, { mode: 0o755 });
+    fs.writeFileSync(
+      path.join(tmpDir, "IERC20.sol"),
+      "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ninterface IERC20 { function balanceOf(address) external view returns (uint256); }\n",
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function calls(): string[][] {
+    const log = `${binary}.calls`;
+    if (!fs.existsSync(log)) return [];
+    return fs
+      .readFileSync(log, "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as string[]);
+  }
+
+  it("compiles through the binary with the same output as solc-js", () => {
+    const context = { basePath: tmpDir, root: tmpDir };
+    const native = compileCached(LENS, { optimizer: { runs: 7 } }, { ...context, backend: "native", solcPath: binary });
+    const wasm = compileCached(LENS, { optimizer: { runs: 7 } }, context);
+
+    expect(calls()).toEqual([["--standard-json", "--base-path", tmpDir]]);
+    expect(native.output.contracts).toEqual(wasm.output.contracts);
+    expect(native.dependencies).toEqual([path.join(tmpDir, "IERC20.sol")]);
+    expect(native.compilerVersion).toBe(wasm.compilerVersion);
+  });
+
+  it("is selected through the plugin options", () => {
+    const code = `import { sol } from "soltag";\nconst lens = sol("Lens")\`${LENS}\`;`;
+    const result = transformSolTemplates(code, path.join(tmpDir, "lens.ts"), {
+      root: tmpDir,
+      backend: "native",
+      solcPath: "bin/solc",
+      solc: { optimizer: { runs: 3 } },
+    });
+
+    expect(result!.code).toContain('new __InlineContract("Lens",');
+    expect(result!.dependencies).toEqual([path.join(tmpDir, "IERC20.sol")]);
+    expect(calls()).toHaveLength(1);
+  });
+
+  it("reports solc errors in the usual shape", () => {
+    expect(() =>
+      compileToArtifacts(
+        "pragma solidity ^0.8.0; contract A { uint x = ; }",
+        { optimizer: { runs: 5 } },
+        { basePath: tmpDir, backend: "native", solcPath: binary },
+      ),
+    ).toThrow(/Solidity compilation failed \(solc .*\):\nerror: Expected primary expression/);
+  });
+
+  it("rejects a binary that doesn't satisfy the pragma or pin", () => {
+    const context = { basePath: tmpDir, backend: "native" as const, solcPath: binary };
+    expect(() => compileCached("pragma solidity 0.6.12; contract A {}", undefined, context)).toThrow(
+      /native solc ".*" is 0\.8\.\d+, which doesn't satisfy "pragma solidity 0\.6\.12"/,
+    );
+    expect(() => compileCached("contract A {}", undefined, { ...context, version: "0.7.6" })).toThrow(
+      /solc 0\.7\.6 is pinned but native solc ".*" is 0\.8\.\d+/,
+    );
+  });
+
+  it("explains a missing binary", () => {
+    expect(() =>
+      compileCached("contract A {}", undefined, {
+        basePath: tmpDir,
+        backend: "native",
+        solcPath: path.join(tmpDir, "missing"),
+      }),
+    ).toThrow(/native solc ".*missing" not found/);
+  });
+});
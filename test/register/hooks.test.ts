@@ -0,0 +1,167 @@
+import * as fs from "node:fs";
+import Module, { type LoadFnOutput, SourceMap } from "node:module";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { compileForNode, handlesFile, moduleFormat } from "../../src/register/compile.js";
+import { load } from "../../src/register/hooks.js";
+import { installRequireHook } from "../../src/register/require-hook.js";
+
+const SCRIPT = `import { sol } from "soltag";
+
+const lens = sol("Lens")\`
+  // SPDX-License-Identifier: MIT
+  pragma solidity ^0.8.24;
+  contract Lens {
+    function answer() external pure returns (uint256) { return 42; }
+  }
+\`;
+
+export function fail(): never {
+  throw new Error(String(lens.abi.length));
+}
+`;
+
+const COUNTER = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+contract Counter { uint256 public count; }
+`;
+
+/** The original line (0-based) that `needle` in `output` maps back to through its inline source map */
+function originalLine(output: string, needle: string): number | undefined {
+  const [, encoded] = output.match(/sourceMappingURL=data:application\/json;base64,(\S+)/) ?? [];
+  const map = new SourceMap(JSON.parse(Buffer.from(encoded, "base64").toString("utf-8")));
+  const lines = output.split("\n");
+  const line = lines.findIndex((l) => l.includes(needle));
+  const entry = map.findEntry(line, lines[line].indexOf(needle));
+  return "originalLine" in entry ? entry.originalLine : undefined;
+}
+
+describe("soltag/register", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-register-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("picks the module format from the extension or package.json", () => {
+    expect(moduleFormat(path.join(tmpDir, "a.mts"))).toBe("module");
+    expect(moduleFormat(path.join(tmpDir, "a.cts"))).toBe("commonjs");
+
+    fs.mkdirSync(path.join(tmpDir, "esm"));
+    fs.writeFileSync(path.join(tmpDir, "esm", "package.json"), '{ "type": "module" }');
+    fs.writeFileSync(path.join(tmpDir, "package.json"), "{}");
+    expect(moduleFormat(path.join(tmpDir, "esm", "a.ts"))).toBe("module");
+    expect(moduleFormat(path.join(tmpDir, "a.ts"))).toBe("commonjs");
+  });
+
+  it("handles included extensions outside excluded paths, and .sol modules", () => {
+    fs.writeFileSync(path.join(tmpDir, "soltag.config.json"), '{ "include": [".ts"], "exclude": ["generated/**"] }');
+    expect(handlesFile(path.join(tmpDir, "a.ts"), tmpDir)).toBe(true);
+    expect(handlesFile(path.join(tmpDir, "a.mts"), tmpDir)).toBe(false);
+    expect(handlesFile(path.join(tmpDir, "generated", "a.ts"), tmpDir)).toBe(false);
+    expect(handlesFile(path.join(tmpDir, "node_modules", "dep", "Lens.sol"), tmpDir)).toBe(true);
+  });
+
+  it("compiles templates and strips types, keeping lines for the source map", () => {
+    const file = path.join(tmpDir, "script.mts");
+    const output = compileForNode(SCRIPT, file, "module");
+
+    expect(output).toContain('import { InlineContract as __InlineContract } from "soltag";');
+    expect(output).toContain('new __InlineContract("Lens"');
+    expect(output).not.toContain("pragma solidity");
+    expect(output).not.toContain(": never");
+    const throwLine = SCRIPT.split("\n").findIndex((line) => line.includes("throw new Error"));
+    expect(originalLine(output as string, "throw new Error")).toBe(throwLine);
+
+    const cjs = compileForNode(SCRIPT, path.join(tmpDir, "script.cts"), "commonjs");
+    expect(cjs).toContain('require("soltag")');
+    expect(originalLine(cjs as string, "throw new Error")).toBe(throwLine);
+  });
+
+  it("leaves modules without templates to the next loader", () => {
+    expect(compileForNode("export const x: number = 1;\n", path.join(tmpDir, "plain.ts"), "module")).toBeUndefined();
+  });
+
+  it("compiles .sol modules", () => {
+    const output = compileForNode(COUNTER, path.join(tmpDir, "Counter.sol"), "commonjs");
+    expect(output).toContain('exports.Counter = new soltag_1.InlineContract("Counter"');
+    expect(output).toContain("exports.default = exports.Counter");
+  });
+
+  it("loads ES modules and hands CommonJS ones to the require hook", async () => {
+    const nextLoad = vi.fn(async (): Promise<LoadFnOutput> => ({ format: "module", source: "" }));
+    const context = { conditions: [], format: undefined, importAttributes: {} };
+    const url = (name: string, code: string) => {
+      fs.writeFileSync(path.join(tmpDir, name), code);
+      return pathToFileURL(path.join(tmpDir, name)).href;
+    };
+
+    const esm = await load(url("script.mts", SCRIPT), context, nextLoad);
+    expect(esm.format).toBe("module");
+    expect(String(esm.source)).toContain('new __InlineContract("Lens"');
+
+    const sol = await load(url("Counter.sol", COUNTER), context, nextLoad);
+    expect(String(sol.source)).toContain("export const Counter");
+
+    expect(await load(url("script.cts", SCRIPT), context, nextLoad)).toEqual({
+      format: "commonjs",
+      shortCircuit: true,
+    });
+    expect(nextLoad).not.toHaveBeenCalled();
+
+    await load(url("plain.mts", "export const x = 1;\n"), context, nextLoad);
+    expect(nextLoad).toHaveBeenCalledTimes(1);
+  });
+
+  it("compiles required modules and falls back to the previous handler", () => {
+    const extensions = (Module as unknown as { _extensions: Record<string, (module: unknown, file: string) => void> })
+      ._extensions;
+    const previous = vi.fn();
+    const original = extensions[".cts"];
+    extensions[".cts"] = previous;
+    const uninstall = installRequireHook();
+    try {
+      const script = path.join(tmpDir, "script.cts");
+      fs.writeFileSync(script, SCRIPT);
+      const module = { _compile: vi.fn() };
+      extensions[".cts"](module, script);
+      expect(module._compile).toHaveBeenCalledWith(expect.stringContaining('require("soltag")'), script);
+      expect(previous).not.toHaveBeenCalled();
+
+      const plain = path.join(tmpDir, "plain.cts");
+      fs.writeFileSync(plain, "export const x = 1;\n");
+      extensions[".cts"](module, plain);
+      expect(previous).toHaveBeenCalledWith(module, plain);
+    } finally {
+      uninstall();
+      if (original) extensions[".cts"] = original;
+      else delete extensions[".cts"];
+    }
+  });
+
+  it("asks for a TypeScript loader when no handler is registered for the extension", () => {
+    const extensions = (Module as unknown as { _extensions: Record<string, (module: unknown, file: string) => void> })
+      ._extensions;
+    const original = extensions[".cts"];
+    delete extensions[".cts"];
+    const uninstall = installRequireHook();
+    try {
+      const plain = path.join(tmpDir, "plain.cts");
+      fs.writeFileSync(plain, "export const x: number = 1;\n");
+      expect(() => extensions[".cts"]({ _compile: vi.fn() }, plain)).toThrow(
+        /no loader is registered for \.cts files\. Register a TypeScript loader such as tsx or ts-node/,
+      );
+    } finally {
+      uninstall();
+      if (original) extensions[".cts"] = original;
+    }
+  });
+});
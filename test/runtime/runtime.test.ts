@@ -0,0 +1,78 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { InlineContract, sol, solFile } from "../../src/runtime/index.js";
+import { SolidityCompilationError } from "../../src/solc.js";
+
+function lens(answer: number | bigint | string) {
+  return sol("Lens")`
+    // SPDX-License-Identifier: MIT
+    pragma solidity ^0.8.24;
+    contract Lens {
+      function answer() external pure returns (uint256) { return ${answer}; }
+    }
+  `;
+}
+
+describe("soltag/runtime", () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-runtime-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("compiles templates with runtime interpolations", () => {
+    const contract = lens(Number("42"));
+    expect(contract).toBeInstanceOf(InlineContract);
+    expect(contract.name).toBe("Lens");
+    expect(contract.abi).toEqual([expect.objectContaining({ name: "answer", type: "function" })]);
+    expect(contract.compilerVersion).toMatch(/^0\.8\./);
+    expect(lens(42n).bytecode()).toBe(contract.bytecode());
+    expect(lens("43").bytecode()).not.toBe(contract.bytecode());
+  });
+
+  it("caches identical templates", () => {
+    expect(lens(7)).toBe(lens(7));
+    expect(lens(7)).not.toBe(lens(8));
+  });
+
+  it("rejects values without a Solidity literal form", () => {
+    expect(() => lens({} as unknown as string)).toThrow(
+      'interpolation 1 of sol("Lens") is an object, which has no Solidity literal form',
+    );
+    expect(() => lens(Number.NaN)).toThrow("NaN, which has no Solidity literal form");
+  });
+
+  it("reports missing contracts and compile errors", () => {
+    expect(() => sol("Lense")`pragma solidity ^0.8.24; contract Lens {}`).toThrow('Did you mean "Lens"?');
+    expect(() => sol("Broken")`pragma solidity ^0.8.24; contract Broken { uint x = }`).toThrow(
+      SolidityCompilationError,
+    );
+  });
+
+  it("reads solFile paths relative to the calling file", () => {
+    fs.writeFileSync(
+      path.join(tmpDir, "IThing.sol"),
+      "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ninterface IThing { function x() external view returns (uint256); }\n",
+    );
+    const relative = path.relative(__dirname, path.join(tmpDir, "IThing.sol"));
+    const contents = solFile(relative.startsWith(".") ? relative : `./${relative}`);
+    expect(contents.trim()).toBe("interface IThing { function x() external view returns (uint256); }");
+    expect(solFile(path.join(tmpDir, "IThing.sol"), { raw: true })).toContain("pragma solidity");
+
+    const reader = sol("Reader")`
+      // SPDX-License-Identifier: MIT
+      pragma solidity ^0.8.24;
+      ${contents}
+      contract Reader { function read(IThing thing) external view returns (uint256) { return thing.x(); } }
+    `;
+    expect(reader.abi).toEqual([expect.objectContaining({ name: "read" })]);
+  });
+});
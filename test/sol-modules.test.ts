@@ -0,0 +1,101 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import ts from "typescript";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { resolveConfig } from "../src/config.js";
+import {
+  compileSolModuleTypes,
+  findSolImports,
+  primaryContract,
+  writeSolModuleDeclaration,
+} from "../src/sol-modules.js";
+
+describe("primaryContract", () => {
+  it("prefers the contract named after the file", () => {
+    expect(primaryContract("/src/Lens.sol", "contract Lens {} contract Other {}", ["Lens", "Other"])).toBe("Lens");
+  });
+
+  it("falls back to the last concrete contract, then the only declaration", () => {
+    const source = "interface I {}\ncontract A {}\nabstract contract B {}\n// contract C {}\nlibrary L {}";
+    expect(primaryContract("/src/x.sol", source, ["A", "B", "I", "L"])).toBe("A");
+    expect(primaryContract("/src/x.sol", "interface I {}", ["I"])).toBe("I");
+    expect(primaryContract("/src/x.sol", "interface I {}\ninterface J {}", ["I", "J"])).toBeUndefined();
+  });
+});
+
+describe(".sol module types", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "soltag-solmodules-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("finds relative .sol imports and re-exports", () => {
+    const sourceFile = ts.createSourceFile(
+      path.join(tmpDir, "src/app.ts"),
+      'import Lens from "./Lens.sol";\nexport { IERC20 } from "../sol/IERC20.sol";\nimport x from "pkg/A.sol";\n',
+      ts.ScriptTarget.Latest,
+      true,
+    );
+    expect(findSolImports(ts, sourceFile)).toEqual([
+      path.join(tmpDir, "src/Lens.sol"),
+      path.join(tmpDir, "sol/IERC20.sol"),
+    ]);
+  });
+
+  it("writes a declaration that types the module's exports", () => {
+    const solFile = path.join(tmpDir, "Lens.sol");
+    fs.writeFileSync(
+      solFile,
+      "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.24;\ninterface IERC20 {}\ncontract Lens { constructor(uint256 x) {} function f() external pure returns (uint256) { return 1; } }\n",
+    );
+    const types = compileSolModuleTypes(solFile, resolveConfig(ts, tmpDir, { cache: false }))!;
+
+    expect(types.entries.map((e) => e.contractName)).toEqual(["IERC20", "Lens"]);
+    expect(types.entries[1].constructorInputs).toEqual([expect.objectContaining({ name: "x", type: "uint256" })]);
+    expect(types.declaration).toBe(
+      [
+        "// Generated by soltag from Lens.sol — do not edit",
+        'import type { InlineContract } from "soltag";',
+        "",
+        'export declare const IERC20: InlineContract<"IERC20">;',
+        'export declare const Lens: InlineContract<"Lens">;',
+        "export default Lens;",
+        "",
+      ].join("\n"),
+    );
+
+    expect(writeSolModuleDeclaration(types)).toBe(true);
+    expect(fs.readFileSync(`${solFile}.d.ts`, "utf-8")).toBe(types.declaration);
+    expect(writeSolModuleDeclaration(types)).toBe(false);
+
+    // TypeScript resolves `./Lens.sol` to the declaration
+    const appFile = path.join(tmpDir, "app.ts");
+    fs.writeFileSync(
+      appFile,
+      'import Lens, { IERC20 } from "./Lens.sol";\nexport const names = [Lens.name, IERC20.name];\n',
+    );
+    const program = ts.createProgram([appFile], {
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      strict: true,
+      noEmit: true,
+      paths: { soltag: [path.resolve("src/index.ts")] },
+    });
+    const diagnostics = ts.getPreEmitDiagnostics(program, program.getSourceFile(appFile));
+    expect(diagnostics.map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"))).toEqual([]);
+  });
+
+  it("skips files that don't compile", () => {
+    const solFile = path.join(tmpDir, "Broken.sol");
+    fs.writeFileSync(solFile, "pragma solidity ^0.8.24;\ncontract Broken { nope }\n");
+    expect(compileSolModuleTypes(solFile, resolveConfig(ts, tmpDir, { cache: false }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import { compileCached, compileToArtifacts, mergeSolcSettings, validateSolcSettings } from "../src/solc.js";
+
+const SOURCE = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+contract A {
+  function f(uint256 x) external pure returns (uint256) {
+    require(x > 0, "x must be positive");
+    return x * 2;
+  }
+}
+`;
+
+describe("solc settings", () => {
+  it("accepts the full settings surface", () => {
+    expect(() =>
+      validateSolcSettings({
+        optimizer: {
+          enabled: true,
+          runs: 200,
+          details: { yul: true, yulDetails: { stackAllocation: true, optimizerSteps: "dhfoDgvulfnTUtnIf" } },
+        },
+        evmVersion: "paris",
+        viaIR: true,
+        metadata: { bytecodeHash: "none", appendCBOR: false },
+        debug: { revertStrings: "strip" },
+        remappings: ["@oz/=lib/oz/"],
+        stopAfter: "parsing",
+        eofVersion: 1,
+      }),
+    ).not.toThrow();
+  });
+
+  it("checks stopAfter and eofVersion values", () => {
+    expect(() =>
+      // biome-ignore lint/suspicious/noExplicitAny: deliberately invalid input
+      validateSolcSettings({ stopAfter: "analysis", eofVersion: "1" } as any),
+    ).toThrow(/stopAfter must be one of parsing[\s\S]*eofVersion must be a non-negative integer/);
+  });
+
+  it("rejects unknown keys and bad values with their paths", () => {
+    expect(() =>
+      validateSolcSettings({
+        // biome-ignore lint/suspicious/noExplicitAny: deliberately invalid input
+        evmVersion: "london2" as any,
+        // biome-ignore lint/suspicious/noExplicitAny: deliberately invalid input
+        optimizer: { runs: -1, detail: {} } as any,
+      }),
+    ).toThrow(
+      /evmVersion must be one of[\s\S]*optimizer\.runs must be a non-negative integer[\s\S]*unknown setting optimizer\.detail/,
+    );
+  });
+
+  it("rejects invalid settings at compile time", () => {
+    // biome-ignore lint/suspicious/noExplicitAny: deliberately invalid input
+    expect(() => compileCached(SOURCE, { viaIr: true } as any)).toThrow(/unknown setting viaIr/);
+  });
+
+  it("shares a cache entry regardless of key order and explicit defaults", () => {
+    const a = compileCached(SOURCE, { viaIR: false, optimizer: { runs: 1 } });
+    const b = compileCached(SOURCE, { optimizer: { enabled: true, runs: 1 }, viaIR: false });
+    expect(b).toBe(a);
+  });
+
+  it("keys the cache on every setting", () => {
+    const withCbor = compileToArtifacts(SOURCE).artifacts.A;
+    const withoutCbor = compileToArtifacts(SOURCE, { metadata: { appendCBOR: false } }).artifacts.A;
+    expect(withoutCbor.deployedBytecode.length).toBeLessThan(withCbor.deployedBytecode.length);
+  });
+
+  it("strips revert strings when debug.revertStrings is strip", () => {
+    const message = Buffer.from("x must be positive").toString("hex");
+    expect(compileToArtifacts(SOURCE).artifacts.A.deployedBytecode).toContain(message);
+    const stripped = compileToArtifacts(SOURCE, { debug: { revertStrings: "strip" } }).artifacts.A;
+    expect(stripped.deployedBytecode).not.toContain(message);
+  });
+
+  it("merges nested settings key by key", () => {
+    expect(
+      mergeSolcSettings(
+        { optimizer: { enabled: false, runs: 200 }, metadata: { bytecodeHash: "ipfs" } },
+        { optimizer: { runs: 1000 }, metadata: undefined },
+      ),
+    ).toEqual({ optimizer: { enabled: false, runs: 1000 }, metadata: { bytecodeHash: "ipfs" } });
+  });
+});
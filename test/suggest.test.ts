@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { levenshtein, missingContractMessage, suggestName } from "../src/suggest.js";
+
+describe("suggestName", () => {
+  it("measures edit distance", () => {
+    expect(levenshtein("Lense", "Lens")).toBe(1);
+    expect(levenshtein("kitten", "sitting")).toBe(3);
+    expect(levenshtein("", "abc")).toBe(3);
+  });
+
+  it("prefers case-only differences, then the closest typo", () => {
+    expect(suggestName("lens", ["Lense", "Lens"])).toBe("Lens");
+    expect(suggestName("Valut", ["Vault", "Vaults", "IERC20"])).toBe("Vault");
+    expect(suggestName("Vault", ["Lens", "IERC20"])).toBeUndefined();
+  });
+
+  it("lists what is available", () => {
+    expect(missingContractMessage("Len", ["Lens"], "(solc 0.8.33)")).toBe(
+      'Contract "Len" not found in Solidity source (solc 0.8.33). Did you mean "Lens"? Available contracts: Lens',
+    );
+    expect(missingContractMessage("A", [])).toBe(
+      'Contract "A" not found in Solidity source. Available contracts: (none)',
+    );
+  });
+});
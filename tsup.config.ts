@@ -3,7 +3,7 @@ import { defineConfig } from 'tsup';
 export default defineConfig([
   {
     entry: { index: 'src/index.ts' },
-    format: ['esm'],
+    format: ['esm', 'cjs'],
     dts: true,
     sourcemap: true,
     clean: true,
@@ -16,6 +16,12 @@ export default defineConfig([
     banner: { js: '#!/usr/bin/env node' },
     external: ['solc', 'typescript'],
   },
+  {
+    entry: { config: 'src/define-config.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    sourcemap: true,
+  },
   {
     entry: { plugin: 'src/editor/index.ts' },
     format: ['cjs'],
@@ -29,6 +35,9 @@ export default defineConfig([
       esbuild: 'src/bundler/esbuild.ts',
       webpack: 'src/bundler/webpack.ts',
       loader: 'src/bundler/loader.ts',
+      babel: 'src/bundler/babel.ts',
+      bun: 'src/bundler/bun.ts',
+      worker: 'src/bundler/worker.ts',
     },
     format: ['esm', 'cjs'],
     shims: true,
@@ -36,4 +45,19 @@ export default defineConfig([
     sourcemap: true,
     external: ['solc', 'viem', 'typescript', 'unplugin'],
   },
+  {
+    entry: { runtime: 'src/runtime/index.ts', 'runtime.browser': 'src/runtime/browser.ts' },
+    format: ['esm', 'cjs'],
+    shims: true,
+    dts: { entry: { runtime: 'src/runtime/index.ts' } },
+    sourcemap: true,
+    external: ['solc', 'viem', 'typescript'],
+  },
+  {
+    entry: { register: 'src/register/index.ts', 'register-hooks': 'src/register/hooks.ts', jest: 'src/jest.ts' },
+    format: ['esm', 'cjs'],
+    shims: true,
+    sourcemap: true,
+    external: ['solc', 'viem', 'typescript', 'unplugin'],
+  },
 ]);